@@ -1,4 +1,6 @@
 import { config } from 'dotenv';
 config();
 
-import '@/ai/flows/generate-personalized-itinerary.ts';
\ No newline at end of file
+import '@/ai/flows/generate-personalized-itinerary.ts';
+import '@/ai/flows/regenerate-itinerary-slot.ts';
+import '@/ai/flows/refine-itinerary-chat.ts';
\ No newline at end of file
@@ -0,0 +1,167 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  generatePersonalizedItinerary,
+  generatePersonalizedItineraryFlow,
+} from '@/ai/flows/generate-personalized-itinerary';
+import { GeneratePersonalizedItineraryOutputSchema } from '@/ai/schemas';
+import { summarizeCosts } from '@/lib/costs';
+import { isOpenDuring } from '@/lib/opening-hours';
+import { getPointOfInterest } from '@/lib/poi';
+
+// AI_PROVIDER=mock (see vitest.config.mts) routes every prompt to the offline mock model.
+const input = {
+  stops: [{ destination: 'Goa, India', days: 3 }],
+  startDate: '2030-12-20',
+  days: 3,
+  budget: 'Medium' as const,
+  travelers: 2,
+  currency: 'INR' as const,
+  interests: 'Beaches, Food',
+  pace: 'Balanced' as const,
+};
+
+describe('generatePersonalizedItinerary', () => {
+  it('returns a schema-valid itinerary with one dated day per trip day', async () => {
+    const output = await generatePersonalizedItinerary(input);
+
+    expect(GeneratePersonalizedItineraryOutputSchema.safeParse(output).success).toBe(true);
+    expect(output.itinerary.map(day => day.date)).toEqual(['2030-12-20', '2030-12-21', '2030-12-22']);
+    expect(output.costBreakdown.every(item => item.currency === 'INR')).toBe(true);
+    expect(output.priceCheck.currency).toBe('INR');
+    expect(output.priceCheck.days).toHaveLength(3);
+    expect(output.substitutions).toEqual([]);
+    expect(output.budgetCap).toBeUndefined();
+    expect(output.validation).toEqual({ valid: true, rounds: 0, issues: [], repaired: [] });
+    expect(output.feasibility.map(day => day.day)).toEqual([1, 2, 3]);
+    expect(output.transportLegs).toEqual([]);
+  });
+
+  it('plans activities around places from the points-of-interest tool', async () => {
+    const output = await generatePersonalizedItinerary(input);
+
+    const places = output.itinerary.flatMap(day => day.places ?? []);
+    expect(places.length).toBeGreaterThan(0);
+    for (const place of places) {
+      const poi = getPointOfInterest(place.poiId!);
+      expect(poi?.destination).toBe('Goa');
+      expect(place).toMatchObject({ name: poi!.name, lat: poi!.lat, lng: poi!.lng });
+      const day = output.itinerary.find(item => item.places?.includes(place))!;
+      expect(day[place.slot]).toContain(poi!.name);
+    }
+  });
+
+  it('plans each stop on its own days, with continuous dates and a journey between stops', async () => {
+    const output = await generatePersonalizedItinerary({
+      ...input,
+      stops: [
+        { destination: 'Mumbai, India', days: 2 },
+        { destination: 'Goa, India', days: 2 },
+      ],
+      days: 4,
+    });
+
+    expect(output.itinerary.map(day => [day.day, day.date])).toEqual([
+      [1, '2030-12-20'],
+      [2, '2030-12-21'],
+      [3, '2030-12-22'],
+      [4, '2030-12-23'],
+    ]);
+    const cities = output.itinerary.map(day =>
+      [...new Set((day.places ?? []).map(place => getPointOfInterest(place.poiId!)!.destination))].join()
+    );
+    expect(cities).toEqual(['Mumbai', 'Mumbai', 'Goa', 'Goa']);
+    expect(output.transportLegs).toEqual([
+      expect.objectContaining({ from: 'Mumbai, India', to: 'Goa, India', date: '2030-12-22' }),
+    ]);
+    expect(output.validation.valid).toBe(true);
+  });
+
+  it('dates every day from the start to the end date across a month end and a DST change', async () => {
+    // The clocks go forward on 31 March 2030 in London.
+    vi.stubEnv('TZ', 'Europe/London');
+    try {
+      const output = await generatePersonalizedItinerary({
+        ...input,
+        stops: [{ destination: 'Goa, India', days: 4 }],
+        startDate: '2030-03-30',
+        endDate: '2030-04-02',
+        days: 4,
+      });
+      expect(output.itinerary.map(day => day.date)).toEqual(['2030-03-30', '2030-03-31', '2030-04-01', '2030-04-02']);
+      expect(output.validation.valid).toBe(true);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('only visits places while they are open, with their hours from the dataset', async () => {
+    const output = await generatePersonalizedItinerary({ ...input, interests: 'Food, Shopping' });
+
+    const visits = output.itinerary.flatMap(day => (day.places ?? []).map(place => ({ day, place })));
+    const withHours = visits.filter(({ place }) => place.openingHours);
+    expect(withHours.length).toBeGreaterThan(0);
+    for (const { day, place } of withHours) {
+      expect(place.openingHours).toEqual(getPointOfInterest(place.poiId!)!.openingHours);
+      expect(isOpenDuring(place.openingHours!, day.date, place.slot)).toBe(true);
+    }
+    // The Anjuna flea market only opens on Wednesdays, and the trip runs Friday to Sunday.
+    expect(visits.some(({ place }) => place.poiId === 'goa-anjuna-flea-market')).toBe(false);
+    expect(output.validation.valid).toBe(true);
+  });
+
+  it('re-prompts with the validation errors until the itinerary meets the request', async () => {
+    // The mock model leaves must-include items and avoided activities alone until asked to repair.
+    const output = await generatePersonalizedItinerary({
+      ...input,
+      mustInclude: 'Fort Aguada, Dudhsagar Falls',
+      avoid: 'cruise',
+    });
+
+    expect(output.validation.valid).toBe(true);
+    expect(output.validation.rounds).toBe(1);
+    expect(output.validation.repaired.map(issue => issue.code)).toEqual(['mustInclude', 'mustInclude', 'avoid']);
+    const activities = output.itinerary.map(day => `${day.morning} ${day.afternoon} ${day.evening}`).join(' ');
+    expect(activities).toContain('Fort Aguada');
+    expect(activities).toContain('Dudhsagar Falls');
+    expect(activities).not.toMatch(/cruise/i);
+  });
+
+  it('downgrades the itinerary until it fits the budget cap', async () => {
+    const uncapped = await generatePersonalizedItinerary(input);
+    const uncappedTotal = summarizeCosts(uncapped.costBreakdown, input.travelers).total.amount;
+    const maxBudget = Math.round(uncappedTotal * 0.6);
+
+    const output = await generatePersonalizedItinerary({ ...input, maxBudget });
+
+    expect(output.budgetCap).toMatchObject({ maxBudget, withinBudget: true });
+    expect(output.budgetCap!.rounds).toBeGreaterThan(0);
+    expect(output.budgetCap!.total).toBeLessThanOrEqual(maxBudget);
+    expect(output.substitutions.length).toBe(output.budgetCap!.rounds);
+  });
+
+  it('repairs must-include items the budget downgrade dropped', async () => {
+    const uncapped = await generatePersonalizedItinerary(input);
+    const maxBudget = Math.round(summarizeCosts(uncapped.costBreakdown, input.travelers).total.amount * 0.6);
+
+    // The mock model's downgrade drops the visits its first repair added.
+    const output = await generatePersonalizedItinerary({ ...input, maxBudget, mustInclude: 'Fort Aguada' });
+
+    expect(output.budgetCap).toMatchObject({ maxBudget, withinBudget: true });
+    expect(output.validation).toMatchObject({ valid: true, rounds: 2 });
+    expect(output.itinerary.some(day => day.afternoon.includes('Fort Aguada'))).toBe(true);
+  });
+
+  it('streams each completed day before the final output', async () => {
+    const { stream, output } = generatePersonalizedItineraryFlow.stream(input);
+
+    const chunks = [];
+    for await (const chunk of stream) chunks.push(chunk);
+
+    expect(chunks.length).toBeGreaterThan(0);
+    const lengths = chunks.map(chunk => chunk.itinerary.length);
+    expect(lengths).toEqual([...lengths].sort((a, b) => a - b));
+    expect((await output).itinerary).toHaveLength(3);
+  });
+});
@@ -7,58 +7,51 @@
  * - generatePersonalizedItinerary - A function that generates a travel itinerary.
  * - GeneratePersonalizedItineraryInput - The input type for the generatePersonalizedItinerary function.
  * - GeneratePersonalizedItineraryOutput - The return type for the generatePersonalizedItinerary function.
+ * - generatePersonalizedItineraryFlow - The flow itself, exposed to the streaming route handler.
  */
 
 import {ai} from '@/ai/genkit';
+import {
+  feasibilityFor,
+  priceCheckFor,
+  validationReportFor,
+  withKnownPlaces,
+  withNormalizedCosts,
+} from '@/ai/postprocess';
+import {getPointOfInterest, searchPointsOfInterest} from '@/ai/tools/points-of-interest';
+import {
+  GeneratePersonalizedItineraryInputSchema,
+  GeneratePersonalizedItineraryOutputSchema,
+  ItineraryDraftSchema,
+  ItineraryItemSchema,
+  ItineraryPreviewSchema,
+  SubstitutionSchema,
+  TripRequestSchema,
+  type BudgetCap,
+  type GeneratePersonalizedItineraryInput,
+  type GeneratePersonalizedItineraryOutput,
+  type ItineraryDraft,
+  type ItineraryPreview,
+  type Substitution,
+} from '@/ai/schemas';
+import {summarizeCosts} from '@/lib/costs';
+import {addDays} from '@/lib/dates';
+import {validateItinerary} from '@/lib/itinerary-validation';
+import {describeStop, scheduleStops} from '@/lib/trip-stops';
 import {z} from 'genkit';
 
-const GeneratePersonalizedItineraryInputSchema = z.object({
-  destination: z.string().describe('The desired travel destination.'),
-  startDate: z.string().describe('The start date of the trip (YYYY-MM-DD).'),
-  days: z.number().min(1).max(21).default(3).describe('The number of travel days.'),
-  budget: z.enum(['Low', 'Medium', 'Luxury']).default('Medium').describe('The budget level for the trip.'),
-  travelers: z.number().min(1).default(2).describe('The number of travelers.'),
-  interests: z
-    .string()
-    .describe(
-      'A comma-separated list of interests (e.g., Beaches, Food, Shopping, History, Adventure).'
-    ),
-  pace: z.enum(['Relaxed', 'Balanced', 'Intense']).default('Balanced').describe('The preferred travel pace.'),
-  mustInclude: z
-    .string()
-    .optional()
-    .describe(
-      'A comma-separated list of specific places or activities that must be included in the itinerary.'
-    ),
-  avoid: z
-    .string()
-    .optional()
-    .describe('A comma-separated list of things to avoid.'),
-  notes: z.string().optional().describe('Any additional notes or constraints.'),
-});
-
-export type GeneratePersonalizedItineraryInput = z.infer<
-  typeof GeneratePersonalizedItineraryInputSchema
->;
-
-const ItineraryItemSchema = z.object({
-  day: z.number().describe('The day number in the itinerary.'),
-  date: z.string().describe('The date for this day in YYYY-MM-DD format.'),
-  morning: z.string().describe('A suggested morning activity.'),
-  afternoon: z.string().describe('A suggested afternoon activity.'),
-  evening: z.string().describe('A suggested evening activity.'),
-});
+export type {
+  CostLineItem,
+  GeneratePersonalizedItineraryInput,
+  GeneratePersonalizedItineraryOutput,
+  ItineraryPreview,
+} from '@/ai/schemas';
 
-const GeneratePersonalizedItineraryOutputSchema = z.object({
-  summary: z.string().describe('A summary of the trip itinerary.'),
-  itinerary: z.array(ItineraryItemSchema).describe('The generated travel itinerary.'),
-  estimatedBudget: z.string().describe('The estimated budget for the trip.'),
-  tips: z.string().describe('Helpful tips for the trip.'),
-});
+/** How many times the model may be asked to cut costs before giving up. */
+const MAX_DOWNGRADE_ROUNDS = 3;
 
-export type GeneratePersonalizedItineraryOutput = z.infer<
-  typeof GeneratePersonalizedItineraryOutputSchema
->;
+/** How many times the model may be asked to fix validation issues before giving up. */
+const MAX_REPAIR_ROUNDS = 2;
 
 export async function generatePersonalizedItinerary(
   input: GeneratePersonalizedItineraryInput
@@ -66,42 +59,270 @@ export async function generatePersonalizedItinerary(
   return generatePersonalizedItineraryFlow(input);
 }
 
+/** The stops with the days and dates of each, one line per stop, for the prompts. */
+const RouteSchema = z.array(z.string()).describe('One line per stop with its days and dates.');
+
+function routeOf(input: GeneratePersonalizedItineraryInput): string[] {
+  return scheduleStops(input.stops, input.startDate).map(describeStop);
+}
+
+/**
+ * The last day of the trip. Dates are counted in UTC, so month ends and DST
+ * changes never skip or repeat a day.
+ */
+function endDateOf(input: GeneratePersonalizedItineraryInput): string {
+  return input.endDate ?? addDays(input.startDate, input.days - 1);
+}
+
 const generatePersonalizedItineraryPrompt = ai.definePrompt({
   name: 'generatePersonalizedItineraryPrompt',
-  input: {schema: GeneratePersonalizedItineraryInputSchema},
-  output: {schema: GeneratePersonalizedItineraryOutputSchema},
+  input: {schema: TripRequestSchema.extend({route: RouteSchema})},
+  output: {schema: ItineraryDraftSchema},
+  tools: [searchPointsOfInterest, getPointOfInterest],
   prompt: `You are an expert travel agent. Generate a personalized travel itinerary based on the following user preferences:
 
-Destination: {{{destination}}}
+Stops, in order:
+{{#each route}}
+- {{{this}}}
+{{/each}}
 Start Date: {{{startDate}}}
+End Date: {{{endDate}}}
 Days: {{{days}}}
 Budget: {{{budget}}}
 Travelers: {{{travelers}}}
+Currency: {{{currency}}}
+Max Budget: {{{maxBudget}}}
 Interests: {{{interests}}}
 Pace: {{{pace}}}
 Must Include: {{{mustInclude}}}
 Avoid: {{{avoid}}}
 Notes: {{{notes}}}
 
-Create a detailed itinerary including a summary, daily plans (morning, afternoon, evening activities with date in YYYY-MM-DD format), estimated budget, and helpful tips. The output should be well structured and easy to read.
+Create a detailed itinerary including a summary, daily plans (morning, afternoon, evening activities with date in YYYY-MM-DD format), a cost breakdown, and helpful tips. The output should be well structured and easy to read.
+
+For the cost breakdown, return exactly one line item for each of these categories: accommodation, transport, food, activities, misc. Give every amount (including the day subtotals) as a plain number in the requested currency ({{{currency}}}) and set each line item's currency to {{{currency}}}, state whether it is per person or for the whole group, and give a realistic low/high range around it. Each day must also have a subtotal: the estimated cost of that day for the whole group.
+
+Plan each stop's days at that stop, with dates running on continuously from one stop to the next. For every move from one stop to the next, add a transport leg with the stop names as written above, the travel date (the first day at the next stop), the best mode of transport, the travel time in hours and its cost for the whole group in {{{currency}}}; keep that first day at the new stop light. A trip with a single stop has no transport legs. Include the cost of the transport legs in the transport line of the cost breakdown.
+
+Before planning, use the searchPointsOfInterest tool to look up real places at each stop that match the interests. Build the activities around the places it returns and call them by their exact names, and only plan a stop's places on that stop's days.
+For every slot of every day, add an entry to that day's places with the slot, the name of the place where the activity happens and its latitude and longitude. For places from the tool, also give the place ID and use the tool's coordinates. Never invent place IDs; for any other place, leave the ID out and give its real coordinates as precisely as you can.
+The tool also gives each place's opening hours. The morning runs from 09:00 to 12:00, the afternoon from 13:00 to 17:00 and the evening from 18:00 to 22:00; only plan a visit to a place in a slot when it is open for at least an hour of it on that day's weekday. For places that are not from the tool, give their opening hours if you know them.
 
 Make sure that activities selected match the interests specified.
 If mustInclude is specified, make sure to include them in the itinerary.
 If avoid is specified, make sure to avoid the things that the user wants to avoid.
-Take into account the pace, and make sure that if the pace is relaxed, activities are not crammed together. If the pace is intense, pack the itinerary with activities.
+If a max budget is specified, keep the group total of the cost breakdown within it.
+Take into account the pace, and make sure that if the pace is relaxed, activities are not crammed together. If the pace is intense, pack the itinerary with activities. Whatever the pace, keep the activities of each day close to one another so that little of the day is spent travelling between them.
 
 Ensure the output is well formatted.
 `,
 });
 
-const generatePersonalizedItineraryFlow = ai.defineFlow(
+const downgradeItineraryPrompt = ai.definePrompt({
+  name: 'downgradeItineraryPrompt',
+  input: {
+    schema: z.object({
+      itinerary: z.string().describe('The current itinerary as JSON.'),
+      total: z.number(),
+      maxBudget: z.number(),
+      currency: z.string(),
+      travelers: z.number(),
+      mustInclude: z.string().optional(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      itinerary: ItineraryDraftSchema.describe('The revised itinerary.'),
+      substitutions: z.array(SubstitutionSchema).describe('Every substitution made in this revision.'),
+      feasible: z
+        .boolean()
+        .describe('False if the itinerary cannot reasonably be brought within the budget.'),
+      explanation: z.string().describe('Why the budget cannot be met, or an empty string.'),
+    }),
+  },
+  prompt: `You are an expert travel agent. The itinerary below costs {{{total}}} {{{currency}}} for {{{travelers}}} travelers, but the group has a hard budget of {{{maxBudget}}} {{{currency}}}.
+
+Revise the itinerary so that it fits the budget by substituting cheaper activities, dining, transport or lodging. Keep everything else (days, dates, summary and tips) as close to the original as possible, and never remove these must-include items: {{{mustInclude}}}
+
+Update the cost breakdown and day subtotals to match your changes, keeping every amount in {{{currency}}}. List every substitution you make with its estimated saving for the whole group.
+If the budget cannot reasonably be met, set feasible to false and explain why.
+
+Current itinerary:
+{{{itinerary}}}
+`,
+});
+
+const repairItineraryPrompt = ai.definePrompt({
+  name: 'repairItineraryPrompt',
+  input: {
+    schema: z.object({
+      itinerary: z.string().describe('The current itinerary as JSON.'),
+      issues: z.array(z.string()).describe('The validation errors to fix.'),
+      route: RouteSchema,
+      startDate: z.string(),
+      endDate: z.string(),
+      days: z.number(),
+      travelers: z.number(),
+      currency: z.string(),
+      mustInclude: z.string().optional(),
+      avoid: z.string().optional(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      itinerary: ItineraryDraftSchema.describe('The corrected itinerary.'),
+    }),
+  },
+  tools: [searchPointsOfInterest, getPointOfInterest],
+  prompt: `You are an expert travel agent. The itinerary below was written for this request, but it breaks some of the request's requirements:
+
+Stops, in order:
+{{#each route}}
+- {{{this}}}
+{{/each}}
+Start Date: {{{startDate}}}
+End Date: {{{endDate}}}
+Days: {{{days}}}
+Travelers: {{{travelers}}}
+Currency: {{{currency}}}
+Must Include: {{{mustInclude}}}
+Avoid: {{{avoid}}}
+
+Validation errors:
+{{#each issues}}
+- {{{this}}}
+{{/each}}
+
+Fix every error listed above and change nothing else. The itinerary must have exactly {{{days}}} days, numbered from 1, on consecutive dates from {{{startDate}}} to {{{endDate}}}, with each stop's places on that stop's days and a transport leg on the first day of every stop after the first. Every must-include item must appear by name in some day's activities, and no activity may mention anything the traveler wants to avoid. Every place ID listed in a day's places must come from the searchPointsOfInterest tool, and every slot needs a place with its coordinates. Every place must be open during its slot (morning 09:00–12:00, afternoon 13:00–17:00, evening 18:00–22:00) on that day's weekday; move a visit to a day or slot when the place is open, or swap it for another place. Keep every amount in {{{currency}}} and update the cost breakdown and day subtotals if your changes affect them.
+
+Current itinerary:
+{{{itinerary}}}
+`,
+});
+
+/**
+ * Picks the finished parts out of a partially streamed draft. A day only
+ * counts as finished once the model has moved on to the next one, because
+ * the text of the last day may still be growing.
+ */
+function previewOf(partial: Partial<ItineraryDraft> | null): ItineraryPreview {
+  const days = partial?.itinerary ?? [];
+  return {
+    summary: partial?.itinerary ? partial.summary : undefined,
+    itinerary: days
+      .slice(0, -1)
+      .filter(day => ItineraryItemSchema.safeParse(day).success),
+  };
+}
+
+export const generatePersonalizedItineraryFlow = ai.defineFlow(
   {
     name: 'generatePersonalizedItineraryFlow',
     inputSchema: GeneratePersonalizedItineraryInputSchema,
     outputSchema: GeneratePersonalizedItineraryOutputSchema,
+    streamSchema: ItineraryPreviewSchema,
   },
-  async input => {
-    const {output} = await generatePersonalizedItineraryPrompt(input);
-    return output!;
+  async (input, {sendChunk}) => {
+    const {stream, response} = generatePersonalizedItineraryPrompt.stream({
+      ...input,
+      endDate: endDateOf(input),
+      route: routeOf(input),
+    });
+    let sent: ItineraryPreview = {itinerary: []};
+    for await (const chunk of stream) {
+      const preview = previewOf(chunk.output as Partial<ItineraryDraft> | null);
+      if (
+        preview.itinerary.length > sent.itinerary.length ||
+        (preview.summary && !sent.summary)
+      ) {
+        sendChunk(preview);
+        sent = preview;
+      }
+    }
+
+    const {output} = await response;
+    if (!output) throw new Error('The model returned no itinerary.');
+    let draft = withNormalizedCosts(output, input.currency);
+
+    const initialIssues = validateItinerary(draft.itinerary, input, draft.transportLegs);
+    let repairRounds = 0;
+    const repairDraft = async (draft: ItineraryDraft): Promise<ItineraryDraft> => {
+      let issues = validateItinerary(draft.itinerary, input, draft.transportLegs);
+      for (let round = 0; issues.length > 0 && round < MAX_REPAIR_ROUNDS; round++) {
+        repairRounds++;
+        const {output: repair} = await repairItineraryPrompt({
+          itinerary: JSON.stringify(draft),
+          issues: issues.map(issue => issue.message),
+          route: routeOf(input),
+          startDate: input.startDate,
+          endDate: endDateOf(input),
+          days: input.days,
+          travelers: input.travelers,
+          currency: input.currency,
+          mustInclude: input.mustInclude,
+          avoid: input.avoid,
+        });
+        if (!repair) break;
+        draft = withNormalizedCosts(repair.itinerary, input.currency);
+        issues = validateItinerary(draft.itinerary, input, draft.transportLegs);
+      }
+      return draft;
+    };
+    draft = await repairDraft(draft);
+
+    let total = summarizeCosts(draft.costBreakdown, input.travelers).total.amount;
+    const substitutions: Substitution[] = [];
+    let budgetCap: BudgetCap | undefined;
+
+    if (input.maxBudget !== undefined) {
+      let rounds = 0;
+      let explanation: string | undefined;
+      while (total > input.maxBudget && rounds < MAX_DOWNGRADE_ROUNDS) {
+        rounds++;
+        const {output: revision} = await downgradeItineraryPrompt({
+          itinerary: JSON.stringify(draft),
+          total: Math.round(total),
+          maxBudget: input.maxBudget,
+          currency: input.currency,
+          travelers: input.travelers,
+          mustInclude: input.mustInclude,
+        });
+        if (!revision) break;
+        draft = withNormalizedCosts(revision.itinerary, input.currency);
+        total = summarizeCosts(draft.costBreakdown, input.travelers).total.amount;
+        substitutions.push(...revision.substitutions);
+        if (!revision.feasible) {
+          explanation = revision.explanation;
+          break;
+        }
+      }
+      // Cheaper substitutions can drop a must-include item or land on a closed
+      // place, so the downgraded draft goes through the repair loop again.
+      if (rounds > 0) {
+        draft = await repairDraft(draft);
+        total = summarizeCosts(draft.costBreakdown, input.travelers).total.amount;
+      }
+      const withinBudget = total <= input.maxBudget;
+      budgetCap = {
+        maxBudget: input.maxBudget,
+        total,
+        withinBudget,
+        rounds,
+        explanation: withinBudget
+          ? undefined
+          : explanation ||
+            `The itinerary still costs more than the budget after ${rounds} rounds of cheaper substitutions.`,
+      };
+    }
+
+    draft = withKnownPlaces(draft);
+    return {
+      ...draft,
+      priceCheck: priceCheckFor(draft, input),
+      feasibility: feasibilityFor(draft, input),
+      substitutions,
+      budgetCap,
+      validation: validationReportFor(draft, input, repairRounds, initialIssues),
+    };
   }
 );
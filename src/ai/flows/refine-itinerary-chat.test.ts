@@ -0,0 +1,57 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import { generatePersonalizedItinerary } from '@/ai/flows/generate-personalized-itinerary';
+import { refineItinerary } from '@/ai/flows/refine-itinerary-chat';
+import { summarizeCosts } from '@/lib/costs';
+
+// AI_PROVIDER=mock (see vitest.config.mts) routes every prompt to the offline mock model.
+const request = {
+  stops: [
+    { destination: 'Mumbai, India', days: 2 },
+    { destination: 'Goa, India', days: 2 },
+  ],
+  startDate: '2030-12-20',
+  days: 4,
+  budget: 'Medium' as const,
+  travelers: 2,
+  currency: 'INR' as const,
+  interests: 'Beaches, Food',
+  pace: 'Balanced' as const,
+};
+
+describe('refineItinerary', () => {
+  it('edits the requested day and keeps the journeys between stops', async () => {
+    const itinerary = await generatePersonalizedItinerary(request);
+
+    const result = await refineItinerary({ request, itinerary, history: [], message: 'Make day 3 more relaxed' });
+
+    expect(result.reply).toBe('Done! I updated day 3.');
+    expect(result.diff).toEqual([expect.objectContaining({ day: 3, status: 'changed' })]);
+    expect(result.itinerary.transportLegs).toEqual(itinerary.transportLegs);
+    expect(result.itinerary.transportLegs).toHaveLength(1);
+  });
+
+  it('rechecks the budget cap and drops the substitutions of the edited day', async () => {
+    const generated = await generatePersonalizedItinerary(request);
+    const total = summarizeCosts(generated.costBreakdown, request.travelers).total.amount;
+    const capped = { ...request, maxBudget: Math.round(total * 0.9) };
+    const saving = { category: 'food' as const, original: 'Restaurant', replacement: 'Street food', estimatedSaving: 100 };
+    const itinerary = {
+      ...generated,
+      substitutions: [{ ...saving, day: 3 }, { ...saving, day: 4 }, saving],
+      budgetCap: { maxBudget: capped.maxBudget, total: 0, withinBudget: true, rounds: 3 },
+    };
+
+    const result = await refineItinerary({ request: capped, itinerary, history: [], message: 'Make day 3 more relaxed' });
+
+    expect(result.itinerary.substitutions).toEqual([{ ...saving, day: 4 }, saving]);
+    expect(result.itinerary.budgetCap).toEqual({
+      maxBudget: capped.maxBudget,
+      total,
+      withinBudget: false,
+      rounds: 3,
+      explanation: 'The edited itinerary costs more than the budget.',
+    });
+  });
+});
@@ -0,0 +1,124 @@
+'use server';
+
+/**
+ * @fileOverview A chat flow that applies natural-language edits to an existing itinerary.
+ *
+ * - refineItinerary - A function that applies one chat message to the itinerary.
+ * - RefineItineraryInput - The input type for the refineItinerary function.
+ * - RefineItineraryOutput - The return type for the refineItinerary function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {
+  budgetCapAfter,
+  feasibilityFor,
+  priceCheckFor,
+  substitutionsAfter,
+  validationReportFor,
+  withKnownPlaces,
+  withNormalizedCosts,
+} from '@/ai/postprocess';
+import {
+  GeneratePersonalizedItineraryInputSchema,
+  GeneratePersonalizedItineraryOutputSchema,
+  ItineraryDraftSchema,
+} from '@/ai/schemas';
+import {ITINERARY_SLOTS} from '@/lib/itinerary';
+import {diffItineraries} from '@/lib/itinerary-diff';
+import {z} from 'genkit';
+
+const ChatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+});
+
+const RefineItineraryInputSchema = z.object({
+  request: GeneratePersonalizedItineraryInputSchema.describe(
+    'The preferences the itinerary was originally generated from.'
+  ),
+  itinerary: GeneratePersonalizedItineraryOutputSchema.describe('The current itinerary.'),
+  history: z.array(ChatMessageSchema).default([]).describe('The conversation so far.'),
+  message: z.string().min(1).describe('The latest message from the traveler.'),
+});
+
+export type RefineItineraryInput = z.infer<typeof RefineItineraryInputSchema>;
+
+const DayDiffSchema = z.object({
+  day: z.number(),
+  status: z.enum(['added', 'removed', 'changed']),
+  changes: z.array(
+    z.object({
+      field: z.enum(['date', ...ITINERARY_SLOTS, 'subtotal']),
+      before: z.string(),
+      after: z.string(),
+    })
+  ),
+});
+
+const RefineItineraryOutputSchema = z.object({
+  reply: z.string().describe('The assistant reply to show in the chat.'),
+  itinerary: GeneratePersonalizedItineraryOutputSchema.describe('The itinerary after the edit.'),
+  diff: z.array(DayDiffSchema).describe('The days that changed, slot by slot.'),
+});
+
+export type RefineItineraryOutput = z.infer<typeof RefineItineraryOutputSchema>;
+
+export async function refineItinerary(input: RefineItineraryInput): Promise<RefineItineraryOutput> {
+  return refineItineraryFlow(input);
+}
+
+const RefinementSchema = z.object({
+  reply: z
+    .string()
+    .describe('A short, friendly reply describing what was changed, or asking for clarification.'),
+  itinerary: ItineraryDraftSchema.describe(
+    'The complete itinerary after applying the edit; unchanged days must be returned exactly as they were.'
+  ),
+});
+
+const refineItineraryFlow = ai.defineFlow(
+  {
+    name: 'refineItineraryFlow',
+    inputSchema: RefineItineraryInputSchema,
+    outputSchema: RefineItineraryOutputSchema,
+  },
+  async ({request, itinerary, history, message}) => {
+    const {summary, itinerary: days, costBreakdown, transportLegs, tips} = itinerary;
+    const {output} = await ai.generate({
+      system: `You are an expert travel agent helping a traveler refine an existing itinerary through conversation.
+
+The traveler's original preferences were:
+${JSON.stringify(request, null, 2)}
+
+The current itinerary is:
+${JSON.stringify({summary, itinerary: days, costBreakdown, transportLegs, tips}, null, 2)}
+
+Apply the traveler's latest request to the itinerary. Change only what the request requires and return every other day exactly as it is, keeping the same day numbers and dates.
+Return the journeys between stops (transportLegs) exactly as they are unless the request is about them.
+Keep all costs in ${request.currency} and update the cost breakdown and day subtotals if your changes affect them.
+If the request is unclear, ask a clarifying question in your reply and return the itinerary unchanged.`,
+      messages: history.map(m => ({
+        role: m.role === 'assistant' ? ('model' as const) : ('user' as const),
+        content: [{text: m.content}],
+      })),
+      prompt: message,
+      output: {schema: RefinementSchema},
+    });
+    if (!output) throw new Error('The model returned no refinement.');
+
+    const draft = withKnownPlaces(withNormalizedCosts(output.itinerary, request.currency));
+    const diff = diffItineraries(itinerary.itinerary, draft.itinerary);
+    return {
+      reply: output.reply,
+      itinerary: {
+        ...draft,
+        priceCheck: priceCheckFor(draft, request),
+        substitutions: substitutionsAfter(itinerary.substitutions, diff.map(change => change.day)),
+        budgetCap: budgetCapAfter(itinerary.budgetCap, draft, request),
+        feasibility: feasibilityFor(draft, request),
+        validation: validationReportFor(draft, request),
+      },
+      diff,
+    };
+  }
+);
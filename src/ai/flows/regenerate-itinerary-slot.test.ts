@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import { generatePersonalizedItinerary } from '@/ai/flows/generate-personalized-itinerary';
+import { regenerateItinerarySlot } from '@/ai/flows/regenerate-itinerary-slot';
+import { normalizeCostCurrency, summarizeCosts } from '@/lib/costs';
+import { convertCurrency } from '@/lib/currency';
+
+// AI_PROVIDER=mock (see vitest.config.mts) routes every prompt to the offline mock model.
+const request = {
+  stops: [{ destination: 'Goa, India', days: 3 }],
+  startDate: '2030-12-20',
+  days: 3,
+  budget: 'Medium' as const,
+  travelers: 2,
+  currency: 'INR' as const,
+  interests: 'Beaches, Food',
+  pace: 'Balanced' as const,
+};
+
+function groupTotal(costBreakdown: Parameters<typeof summarizeCosts>[0]): number {
+  return summarizeCosts(costBreakdown, request.travelers).total.amount;
+}
+
+describe('regenerateItinerarySlot', () => {
+  it('reprices the trip along with the regenerated day', async () => {
+    // The budget cap makes the mock model cut every cost, so the regenerated day costs more than the one it replaces.
+    const uncapped = await generatePersonalizedItinerary(request);
+    const capped = { ...request, maxBudget: Math.round(groupTotal(uncapped.costBreakdown) * 0.6) };
+    const itinerary = await generatePersonalizedItinerary(capped);
+
+    const result = await regenerateItinerarySlot({ request: capped, itinerary, day: 2, slot: 'evening' });
+
+    const increase = result.itinerary[1].subtotal - itinerary.itinerary[1].subtotal;
+    expect(increase).toBeGreaterThan(0);
+    const total = groupTotal(result.costBreakdown);
+    expect(total).toBeCloseTo(groupTotal(itinerary.costBreakdown) + increase);
+    expect(result.priceCheck.modelTotal).toBe(total);
+    expect(result.budgetCap).toMatchObject({
+      maxBudget: capped.maxBudget,
+      total,
+      withinBudget: total <= capped.maxBudget,
+      rounds: itinerary.budgetCap!.rounds,
+    });
+  });
+
+  it('keeps a must-include item on the day it replaces', async () => {
+    const withFort = { ...request, mustInclude: 'Fort Aguada' };
+    const itinerary = await generatePersonalizedItinerary(withFort);
+    const day = itinerary.itinerary.find((item) => item.afternoon.includes('Fort Aguada'))!.day;
+
+    const result = await regenerateItinerarySlot({ request: withFort, itinerary, day });
+
+    expect(result.itinerary[day - 1].afternoon).toContain('Fort Aguada');
+    expect(result.validation.valid).toBe(true);
+  });
+
+  it('prices the change in the requested currency when the trip was priced in another', async () => {
+    const generated = await generatePersonalizedItinerary(request);
+    const toUsd = (amount: number) => convertCurrency(amount, 'INR', 'USD');
+    const itinerary = {
+      ...generated,
+      itinerary: generated.itinerary.map((item) => ({ ...item, subtotal: toUsd(item.subtotal) })),
+      costBreakdown: normalizeCostCurrency(generated.costBreakdown, 'USD'),
+      transportLegs: generated.transportLegs.map((leg) => ({ ...leg, cost: toUsd(leg.cost) })),
+    };
+
+    const result = await regenerateItinerarySlot({ request, itinerary, day: 2, slot: 'evening' });
+
+    const increase = result.itinerary[1].subtotal - generated.itinerary[1].subtotal;
+    expect(result.costBreakdown.every((item) => item.currency === 'INR')).toBe(true);
+    expect(result.itinerary[0].subtotal).toBeCloseTo(generated.itinerary[0].subtotal);
+    expect(groupTotal(result.costBreakdown)).toBeCloseTo(groupTotal(generated.costBreakdown) + increase);
+  });
+});
@@ -0,0 +1,168 @@
+'use server';
+
+/**
+ * @fileOverview Regenerates one day, or one time slot of a day, of an existing itinerary.
+ *
+ * - regenerateItinerarySlot - A function that replaces a single day or slot and keeps the rest.
+ * - RegenerateItinerarySlotInput - The input type for the regenerateItinerarySlot function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {
+  budgetCapAfter,
+  feasibilityFor,
+  priceCheckFor,
+  substitutionsAfter,
+  validationReportFor,
+  withKnownPlaces,
+  withNormalizedCosts,
+} from '@/ai/postprocess';
+import {getPointOfInterest, searchPointsOfInterest} from '@/ai/tools/points-of-interest';
+import {
+  GeneratePersonalizedItineraryInputSchema,
+  GeneratePersonalizedItineraryOutputSchema,
+  ItineraryItemSchema,
+  type GeneratePersonalizedItineraryOutput,
+  type ItineraryItem,
+} from '@/ai/schemas';
+import {adjustCostTotal} from '@/lib/costs';
+import {ITINERARY_SLOTS} from '@/lib/itinerary';
+import {stopForDay} from '@/lib/trip-stops';
+import {z} from 'genkit';
+
+const RegenerateItinerarySlotInputSchema = z.object({
+  request: GeneratePersonalizedItineraryInputSchema.describe(
+    'The preferences the itinerary was generated from.'
+  ),
+  itinerary: GeneratePersonalizedItineraryOutputSchema.describe('The current itinerary.'),
+  day: z.number().int().min(1).describe('The day number to regenerate.'),
+  slot: z
+    .enum(ITINERARY_SLOTS)
+    .optional()
+    .describe('The time slot to regenerate; the whole day is regenerated if omitted.'),
+  instruction: z
+    .string()
+    .optional()
+    .describe('What the traveler would like to change, e.g. "something outdoors".'),
+});
+
+export type RegenerateItinerarySlotInput = z.infer<typeof RegenerateItinerarySlotInputSchema>;
+
+export async function regenerateItinerarySlot(
+  input: RegenerateItinerarySlotInput
+): Promise<GeneratePersonalizedItineraryOutput> {
+  return regenerateItinerarySlotFlow(input);
+}
+
+const regenerateItinerarySlotPrompt = ai.definePrompt({
+  name: 'regenerateItinerarySlotPrompt',
+  input: {
+    schema: z.object({
+      destination: z.string().describe('The stop the day is spent at.'),
+      budget: z.string(),
+      travelers: z.number(),
+      currency: z.string(),
+      interests: z.string(),
+      pace: z.string(),
+      mustInclude: z.string().optional(),
+      avoid: z.string().optional(),
+      itinerary: z.string().describe('The full current itinerary as JSON.'),
+      day: z.number(),
+      date: z.string(),
+      slot: z.string().optional(),
+      instruction: z.string().optional(),
+    }),
+  },
+  output: {schema: ItineraryItemSchema},
+  tools: [searchPointsOfInterest, getPointOfInterest],
+  prompt: `You are an expert travel agent revising part of an existing itinerary ({{{travelers}}} travelers, {{{budget}}} budget, {{{pace}}} pace, interests: {{{interests}}}, avoid: {{{avoid}}}). Day {{{day}}} is spent in {{{destination}}}, so only plan places there.
+
+{{#if slot}}
+Replace only the {{{slot}}} activity of day {{{day}}} ({{{date}}}). Keep the other activities of that day exactly as they are.
+{{else}}
+Replace the whole of day {{{day}}} ({{{date}}}) with a fresh plan for the morning, afternoon and evening.
+{{/if}}
+{{#if instruction}}
+The traveler asked for: {{{instruction}}}
+{{/if}}
+{{#if mustInclude}}
+The trip must include: {{{mustInclude}}}. If an activity you replace is one of these, keep it in the new plan.
+{{/if}}
+
+Use the searchPointsOfInterest tool to find real places for the new activities. List where each new activity happens in the day's places, with its slot, the place name, its latitude and longitude, and its ID if it came from the tool. Only choose places that are open during the slot (morning 09:00–12:00, afternoon 13:00–17:00, evening 18:00–22:00) on {{{date}}}; the tool gives each place's opening hours.
+Keep the new plan consistent with the rest of the trip: do not repeat activities planned on other days, and keep travel between neighbouring activities realistic.
+Return the complete revised day, with day number {{{day}}}, date {{{date}}}, and an updated subtotal for the whole group in {{{currency}}}.
+
+Current itinerary:
+{{{itinerary}}}
+`,
+});
+
+const regenerateItinerarySlotFlow = ai.defineFlow(
+  {
+    name: 'regenerateItinerarySlotFlow',
+    inputSchema: RegenerateItinerarySlotInputSchema,
+    outputSchema: GeneratePersonalizedItineraryOutputSchema,
+  },
+  async ({request, itinerary, day, slot, instruction}) => {
+    // The model prices the replacement in the requested currency, so the rest
+    // of the trip is converted into it before the change in price is worked out.
+    const priced = withNormalizedCosts(itinerary, request.currency);
+    const current = priced.itinerary.find(item => item.day === day);
+    if (!current) {
+      throw new Error(`The itinerary has no day ${day}.`);
+    }
+
+    const {output} = await regenerateItinerarySlotPrompt({
+      destination: stopForDay(request.stops, day).destination,
+      budget: request.budget,
+      travelers: request.travelers,
+      currency: request.currency,
+      interests: request.interests,
+      pace: request.pace,
+      mustInclude: request.mustInclude,
+      avoid: request.avoid,
+      itinerary: JSON.stringify(priced.itinerary),
+      day,
+      date: current.date,
+      slot,
+      instruction,
+    });
+    if (!output) throw new Error(`The model returned no replacement for day ${day}.`);
+    const replacement = output;
+
+    // Only take what was asked for from the model, so the rest of the day
+    // (and its number and date) cannot drift.
+    const updated: ItineraryItem = slot
+      ? {
+          ...current,
+          [slot]: replacement[slot],
+          subtotal: replacement.subtotal,
+          places: [
+            ...(current.places ?? []).filter(place => place.slot !== slot),
+            ...(replacement.places ?? []).filter(place => place.slot === slot),
+          ],
+        }
+      : {...replacement, day: current.day, date: current.date};
+
+    // The model only reprices the day, so the cost breakdown moves with its subtotal.
+    const draft = withKnownPlaces({
+      ...priced,
+      itinerary: priced.itinerary.map(item => (item.day === day ? updated : item)),
+      costBreakdown: adjustCostTotal(
+        priced.costBreakdown,
+        request.travelers,
+        updated.subtotal - current.subtotal
+      ),
+    });
+    return {
+      ...itinerary,
+      ...draft,
+      priceCheck: priceCheckFor(draft, request),
+      substitutions: substitutionsAfter(itinerary.substitutions, [day]),
+      budgetCap: budgetCapAfter(itinerary.budgetCap, draft, request),
+      feasibility: feasibilityFor(draft, request),
+      validation: validationReportFor(draft, request),
+    };
+  }
+);
@@ -1,7 +1,26 @@
-import {genkit} from 'genkit';
+import {genkit, type GenkitOptions} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
+import {MOCK_MODEL, mockModel} from '@/ai/plugins/mock-model';
 
-export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.5-flash',
-});
+/**
+ * Picks the model provider from AI_PROVIDER ("googleai" by default, or
+ * "mock" for the offline fixture model). AI_MODEL overrides the model name.
+ */
+function providerOptions(provider: string): GenkitOptions {
+  switch (provider) {
+    case 'googleai':
+      return {
+        plugins: [googleAI()],
+        model: process.env.AI_MODEL || 'googleai/gemini-2.5-flash',
+      };
+    case 'mock':
+      return {
+        plugins: [mockModel()],
+        model: process.env.AI_MODEL || MOCK_MODEL,
+      };
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${provider}". Use "googleai" or "mock".`);
+  }
+}
+
+export const ai = genkit(providerOptions(process.env.AI_PROVIDER || 'googleai'));
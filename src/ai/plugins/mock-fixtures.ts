@@ -0,0 +1,182 @@
+/**
+ * @fileOverview Deterministic fixture data for the mock model.
+ *
+ * - itineraryFixture - A schema-valid itinerary draft for the given trip.
+ * - itineraryOutputFixture - That draft with the checks the generate flow adds to it.
+ * - dayFixture - A schema-valid replacement for a single day.
+ * - sampleFromJsonSchema - A minimal value for any other JSON schema.
+ */
+
+import {feasibilityFor, priceCheckFor, validationReportFor} from '@/ai/postprocess';
+import type {
+  GeneratePersonalizedItineraryInput,
+  GeneratePersonalizedItineraryOutput,
+  ItineraryDraft,
+  ItineraryItem,
+} from '@/ai/schemas';
+import {convertCurrency, isSupportedCurrency} from '@/lib/currency';
+import {tripDates} from '@/lib/dates';
+import {ITINERARY_SLOTS} from '@/lib/itinerary';
+import {isOpenDuring} from '@/lib/opening-hours';
+import type {PointOfInterest} from '@/lib/poi';
+import {isSameStop, scheduleStops, totalDays, tripTitle, type TripStop} from '@/lib/trip-stops';
+
+export type TripFixtureOptions = {
+  stops: TripStop[];
+  startDate: string;
+  travelers: number;
+  currency: string;
+};
+
+const MORNINGS = ['Walking tour of the old town', 'Visit the city museum', 'Sunrise at the viewpoint'];
+const AFTERNOONS = ['Lunch at a local market', 'Explore the botanical gardens', 'Relax at the beach'];
+const EVENINGS = ['Dinner at a family-run restaurant', 'Sunset cruise', 'Street food crawl'];
+
+function inCurrency(usd: number, currency: string): number {
+  const amount = isSupportedCurrency(currency) ? convertCurrency(usd, 'USD', currency) : usd;
+  return Math.round(amount);
+}
+
+/**
+ * A day whose slots visit the given places in order (morning first), each in
+ * the first free slot it is open during; slots without a place get a generic
+ * activity. Places that fit no free slot are left out.
+ */
+export function dayFixture(
+  day: number,
+  date: string,
+  {destination, travelers, currency}: {destination: string} & Pick<TripFixtureOptions, 'travelers' | 'currency'>,
+  places: PointOfInterest[] = []
+): ItineraryItem {
+  const i = (day - 1) % MORNINGS.length;
+  const generic = {morning: `${MORNINGS[i]} in ${destination}`, afternoon: AFTERNOONS[i], evening: EVENINGS[i]};
+  const visits: {slot: (typeof ITINERARY_SLOTS)[number]; place: PointOfInterest}[] = [];
+  for (const place of places) {
+    const slot = ITINERARY_SLOTS.find(
+      slot =>
+        !visits.some(visit => visit.slot === slot) &&
+        (!place.openingHours || isOpenDuring(place.openingHours, date, slot))
+    );
+    if (slot) visits.push({slot, place});
+  }
+  visits.sort((a, b) => ITINERARY_SLOTS.indexOf(a.slot) - ITINERARY_SLOTS.indexOf(b.slot));
+  return {
+    day,
+    date,
+    ...generic,
+    ...Object.fromEntries(visits.map(({slot, place}) => [slot, `Visit ${place.name}`])),
+    subtotal: inCurrency(120 * travelers, currency),
+    places: visits.map(({slot, place}) => ({
+      slot,
+      poiId: place.id,
+      name: place.name,
+      lat: place.lat,
+      lng: place.lng,
+    })),
+  };
+}
+
+export function itineraryFixture(options: TripFixtureOptions, places: PointOfInterest[] = []): ItineraryDraft {
+  const {stops, startDate, travelers, currency} = options;
+  const days = totalDays(stops);
+  const schedule = scheduleStops(stops, startDate);
+  const line = (
+    category: ItineraryDraft['costBreakdown'][number]['category'],
+    usdPerPersonPerDay: number
+  ): ItineraryDraft['costBreakdown'][number] => {
+    const amount = inCurrency(usdPerPersonPerDay * days, currency);
+    return {
+      category,
+      amount,
+      currency,
+      basis: 'perPerson',
+      low: Math.round(amount * 0.8),
+      high: Math.round(amount * 1.25),
+    };
+  };
+
+  return {
+    summary: `A ${days}-day trip to ${tripTitle(stops)} for ${travelers} travelers.`,
+    // Deal each stop's places out over its days, so every day gets a morning stop first.
+    itinerary: schedule.flatMap(stop => {
+      const atStop = places.filter(place => isSameStop(place.destination, stop.destination));
+      return tripDates(stop.startDate, stop.days).map((date, index) =>
+        dayFixture(
+          stop.firstDay + index,
+          date,
+          {destination: stop.destination, travelers, currency},
+          atStop.filter((_, k) => k % stop.days === index)
+        )
+      );
+    }),
+    transportLegs: schedule.slice(1).map((stop, i) => ({
+      from: schedule[i].destination,
+      to: stop.destination,
+      date: stop.startDate,
+      mode: 'train' as const,
+      durationHours: 4,
+      cost: inCurrency(25 * travelers, currency),
+    })),
+    costBreakdown: [
+      line('accommodation', 50),
+      line('transport', 15),
+      line('food', 35),
+      line('activities', 15),
+      line('misc', 5),
+    ],
+    tips: 'Carry a reusable water bottle and keep some local cash for small vendors.',
+  };
+}
+
+/** The fixture for `input` with the price check, feasibility and validation the generate flow adds. */
+export function itineraryOutputFixture(
+  input: GeneratePersonalizedItineraryInput
+): GeneratePersonalizedItineraryOutput {
+  const draft = itineraryFixture(input);
+  return {
+    ...draft,
+    priceCheck: priceCheckFor(draft, input),
+    substitutions: [],
+    feasibility: feasibilityFor(draft, input),
+    validation: validationReportFor(draft, input),
+  };
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+};
+
+/** Builds the smallest value that satisfies a (zod-generated) JSON schema. */
+export function sampleFromJsonSchema(schema: JsonSchema | undefined): unknown {
+  if (!schema) return null;
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.anyOf?.length) return sampleFromJsonSchema(schema.anyOf[0]);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {})
+          .filter(([key]) => schema.required?.includes(key) ?? true)
+          .map(([key, value]) => [key, sampleFromJsonSchema(value)])
+      );
+    case 'array':
+      return [sampleFromJsonSchema(schema.items)];
+    case 'string':
+      return 'mock';
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * @fileOverview A deterministic, offline model for local development and CI.
+ *
+ * - mockModel - A Genkit plugin that registers the `mock/itinerary` model.
+ *
+ * The model recognises the itinerary prompts by the shape of the output
+ * schema they request and answers them with fixture data, so every flow can
+ * run end to end without network access or an API key.
+ */
+
+import {
+  dayFixture,
+  itineraryFixture,
+  sampleFromJsonSchema,
+  type TripFixtureOptions,
+} from '@/ai/plugins/mock-fixtures';
+import {ItineraryDraftSchema, ItineraryItemSchema} from '@/ai/schemas';
+import {INTERESTS} from '@/lib/interests';
+import {preferenceTerms} from '@/lib/itinerary-validation';
+import type {PointOfInterest} from '@/lib/poi';
+import type {TripStop} from '@/lib/trip-stops';
+import type {GenerateRequest, GenerateResponseData, MessageData, ToolRequest} from 'genkit';
+import {genkitPlugin} from 'genkit/plugin';
+
+export const MOCK_MODEL = 'mock/itinerary';
+
+/** Characters per streamed chunk, small enough that day-by-day streaming is exercised. */
+const CHUNK_SIZE = 64;
+
+function textOf(messages: MessageData[]): string {
+  return messages.flatMap(m => m.content.map(part => part.text ?? '')).join('\n');
+}
+
+function field(text: string, label: string): string | undefined {
+  return text.match(new RegExp(`^${label}: (.*)$`, 'm'))?.[1]?.trim() || undefined;
+}
+
+/** The first JSON object or array that follows `marker` in the prompt text. */
+function jsonAfter(text: string, marker: string): unknown {
+  const start = text.indexOf(marker);
+  if (start === -1) return undefined;
+  const json = text.slice(start + marker.length).trim();
+  const close = json.startsWith('[') ? ']' : '}';
+  for (let end = json.lastIndexOf(close); end > 0; end = json.lastIndexOf(close, end - 1)) {
+    try {
+      return JSON.parse(json.slice(0, end + 1));
+    } catch {
+      // Keep shrinking until the trailing non-JSON text is gone.
+    }
+  }
+  return undefined;
+}
+
+/** The stops as the prompts list them: "- Goa, India: days 4–7, 2030-12-23 to 2030-12-26". */
+function stopsOf(text: string): TripStop[] {
+  const stops = [...text.matchAll(/^- (.+): days? (\d+)(?:–(\d+))?, /gm)].map(([, destination, first, last]) => ({
+    destination,
+    days: Number(last ?? first) - Number(first) + 1,
+  }));
+  return stops.length ? stops : [{destination: 'Mock City', days: Number(field(text, 'Days') ?? 3)}];
+}
+
+function tripOptions(text: string): TripFixtureOptions {
+  return {
+    stops: stopsOf(text),
+    startDate: field(text, 'Start Date') ?? '2030-01-01',
+    travelers: Number(field(text, 'Travelers') ?? 2),
+    currency: field(text, 'Currency') ?? 'USD',
+  };
+}
+
+/**
+ * Like a real model, the mock looks up places before writing a new itinerary:
+ * the first turn of the generate prompt asks for a searchPointsOfInterest
+ * call per stop.
+ */
+function placeSearchesFor(request: GenerateRequest): ToolRequest[] {
+  const properties = Object.keys(request.output?.schema?.properties ?? {});
+  if (
+    !properties.includes('costBreakdown') ||
+    !request.tools?.some(tool => tool.name === 'searchPointsOfInterest') ||
+    request.messages.some(m => m.role === 'tool')
+  ) {
+    return [];
+  }
+  const text = textOf(request.messages);
+  const interests = preferenceTerms(field(text, 'Interests'));
+  return stopsOf(text).map((stop, i) => ({
+    name: 'searchPointsOfInterest',
+    ref: `mock-${i}`,
+    input: {
+      destination: stop.destination,
+      categories: INTERESTS.filter(interest => interests.includes(interest)),
+    },
+  }));
+}
+
+function respond(request: GenerateRequest): unknown {
+  const text = textOf(request.messages);
+  const properties = Object.keys(request.output?.schema?.properties ?? {});
+  const has = (...keys: string[]) => keys.every(key => properties.includes(key));
+
+  // downgradeItineraryPrompt: cut every cost by 30%. Like a careless model, it
+  // also drops the visits the repair loop added, must-include items among them.
+  if (has('itinerary', 'substitutions', 'feasible')) {
+    const current = ItineraryDraftSchema.parse(jsonAfter(text, 'Current itinerary:'));
+    const cheaper = (amount: number) => Math.round(amount * 0.7);
+    return {
+      itinerary: {
+        ...current,
+        itinerary: current.itinerary.map(day => ({
+          ...day,
+          afternoon: day.afternoon.replace(/, then visit .*$/, ''),
+          subtotal: cheaper(day.subtotal),
+        })),
+        costBreakdown: current.costBreakdown.map(item => ({
+          ...item,
+          amount: cheaper(item.amount),
+          low: cheaper(item.low),
+          high: cheaper(item.high),
+        })),
+      },
+      substitutions: [
+        {
+          category: 'accommodation',
+          original: 'Hotel',
+          replacement: 'Guesthouse',
+          estimatedSaving: current.costBreakdown.reduce((sum, item) => sum + item.amount * 0.3, 0),
+        },
+      ],
+      feasible: true,
+      explanation: '',
+    };
+  }
+
+  // refineItineraryFlow: change the morning of the first day the message mentions.
+  if (has('reply', 'itinerary')) {
+    const current = ItineraryDraftSchema.parse(jsonAfter(text, 'The current itinerary is:'));
+    const message = textOf(request.messages.slice(-1));
+    const day = Number(message.match(/day (\d+)/i)?.[1] ?? 1);
+    return {
+      reply: `Done! I updated day ${day}.`,
+      itinerary: {
+        ...current,
+        itinerary: current.itinerary.map(item =>
+          item.day === day ? {...item, morning: `Mock activity for: ${message}`} : item
+        ),
+      },
+    };
+  }
+
+  // generatePersonalizedItineraryPrompt, after the place search below. Must-include
+  // items are left out on purpose, so that the repair loop gets exercised.
+  if (has('summary', 'itinerary', 'costBreakdown')) {
+    const places = request.messages
+      .flatMap(m => m.content)
+      .flatMap(part => (part.toolResponse?.name === 'searchPointsOfInterest' ? part.toolResponse.output : []));
+    return itineraryFixture(tripOptions(text), places as PointOfInterest[]);
+  }
+
+  // regenerateItinerarySlotPrompt: keeps the must-include items the replaced day planned.
+  if (has('day', 'date', 'morning')) {
+    const [, day, date] = text.match(/day (\d+) \((\d{4}-\d{2}-\d{2})\)/) ?? [];
+    const replacement = dayFixture(Number(day ?? 1) + 1, date ?? '2030-01-01', {
+      destination: 'the neighbourhood',
+      travelers: Number(text.match(/\((\d+) travelers/)?.[1] ?? 2),
+      currency: text.match(/in ([A-Z]{3})\./)?.[1] ?? 'USD',
+    });
+    const days = ItineraryItemSchema.array().catch([]).parse(jsonAfter(text, 'Current itinerary:'));
+    const planned = JSON.stringify(days.find(item => item.day === Number(day)) ?? {}).toLowerCase();
+    const kept = preferenceTerms(text.match(/^The trip must include: (.*)\. If/m)?.[1]).filter(term =>
+      planned.includes(term.toLowerCase())
+    );
+    return {
+      ...replacement,
+      day: Number(day ?? 1),
+      afternoon: kept.reduce((afternoon, term) => `${afternoon}, then visit ${term}`, replacement.afternoon),
+    };
+  }
+
+  // repairItineraryPrompt: plan every must-include item and drop avoided activities.
+  if (has('itinerary')) {
+    const draft = ItineraryDraftSchema.catch(() => itineraryFixture(tripOptions(text))).parse(
+      jsonAfter(text, 'Current itinerary:')
+    );
+    const mustInclude = preferenceTerms(field(text, 'Must Include'));
+    const avoid = preferenceTerms(field(text, 'Avoid'));
+    const allowed = (activity: string) =>
+      avoid.some(term => activity.toLowerCase().includes(term.toLowerCase())) ? 'Free time to explore' : activity;
+    return {
+      itinerary: {
+        ...draft,
+        itinerary: draft.itinerary.map((day, index) => ({
+          ...day,
+          morning: allowed(day.morning),
+          afternoon: mustInclude
+            .filter((_, i) => i % draft.itinerary.length === index)
+            .reduce((afternoon, term) => `${afternoon}, then visit ${term}`, allowed(day.afternoon)),
+          evening: allowed(day.evening),
+        })),
+      },
+    };
+  }
+
+  return sampleFromJsonSchema(request.output?.schema);
+}
+
+export function mockModel() {
+  return genkitPlugin('mock', async ai => {
+    ai.defineModel(
+      {
+        name: MOCK_MODEL,
+        label: 'Mock itinerary model',
+        // Declaring constrained output makes Genkit pass the output schema
+        // in the request, which is how respond() tells the prompts apart.
+        supports: {
+          multiturn: true,
+          systemRole: true,
+          tools: true,
+          output: ['json', 'text'],
+          constrained: 'all',
+        },
+      },
+      async (request, streamingCallback): Promise<GenerateResponseData> => {
+        const toolRequests = placeSearchesFor(request);
+        if (toolRequests.length) {
+          return {
+            message: {role: 'model', content: toolRequests.map(toolRequest => ({toolRequest}))},
+            finishReason: 'stop',
+          };
+        }
+        const text = JSON.stringify(respond(request));
+        if (streamingCallback) {
+          for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+            streamingCallback({content: [{text: text.slice(i, i + CHUNK_SIZE)}]});
+          }
+        }
+        return {
+          message: {role: 'model', content: [{text}]},
+          finishReason: 'stop',
+        };
+      }
+    );
+  });
+}
@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import { itineraryFixture, itineraryOutputFixture } from '@/ai/plugins/mock-fixtures';
+import {
+  feasibilityFor,
+  priceCheckFor,
+  validationReportFor,
+  withNormalizedCosts,
+  withReorderedDay,
+} from '@/ai/postprocess';
+import { convertCurrency } from '@/lib/currency';
+
+const input = {
+  stops: [{ destination: 'Goa, India', days: 3 }],
+  startDate: '2030-12-20',
+  days: 3,
+  budget: 'Medium' as const,
+  travelers: 2,
+  currency: 'INR' as const,
+  interests: 'Beaches, Food',
+  pace: 'Balanced' as const,
+};
+
+describe('priceCheckFor', () => {
+  it('prices the requested dates even when the draft has a malformed one', () => {
+    const draft = itineraryFixture(input);
+    draft.itinerary[1] = { ...draft.itinerary[1], date: 'December 21, 2030' };
+
+    const priceCheck = priceCheckFor(draft, input);
+    expect(priceCheck.days.map((day) => day.date)).toEqual(['2030-12-20', '2030-12-21', '2030-12-22']);
+    expect(priceCheck.predictedLow).toBeGreaterThan(0);
+    expect(validationReportFor(draft, input).issues).toContainEqual(expect.objectContaining({ code: 'date', day: 2 }));
+  });
+});
+
+describe('withNormalizedCosts', () => {
+  const multiStop = {
+    ...input,
+    stops: [
+      { destination: 'Goa, India', days: 2 },
+      { destination: 'Mumbai, India', days: 1 },
+    ],
+  };
+
+  it('converts the day subtotals and journey costs along with the cost breakdown', () => {
+    const draft = itineraryFixture({ ...multiStop, currency: 'USD' });
+
+    const normalized = withNormalizedCosts(draft, 'INR');
+    expect(normalized.costBreakdown.every((item) => item.currency === 'INR')).toBe(true);
+    expect(normalized.itinerary.map((day) => day.subtotal)).toEqual(
+      draft.itinerary.map((day) => convertCurrency(day.subtotal, 'USD', 'INR'))
+    );
+    expect(normalized.transportLegs).toHaveLength(1);
+    expect(normalized.transportLegs[0].cost).toBe(convertCurrency(draft.transportLegs[0].cost, 'USD', 'INR'));
+  });
+
+  it('leaves a draft already in the requested currency as it is', () => {
+    const draft = itineraryFixture(multiStop);
+
+    expect(withNormalizedCosts(draft, 'INR')).toEqual(draft);
+  });
+});
+
+describe('withReorderedDay', () => {
+  /** Roughly one kilometre of latitude. */
+  const KM = 1 / 111.2;
+
+  // Morning and evening are next to each other; the afternoon is 10 km away.
+  function zigZagTrip() {
+    const output = itineraryOutputFixture(input);
+    const itinerary = output.itinerary.map((day) =>
+      day.day === 1
+        ? {
+            ...day,
+            morning: 'Old town walk',
+            afternoon: 'Museum visit',
+            evening: 'Riverside stroll',
+            places: [
+              { slot: 'morning' as const, name: 'Old Town', lat: 15.5, lng: 73.8 },
+              { slot: 'afternoon' as const, name: 'Museum', lat: 15.5 + 10 * KM, lng: 73.8 },
+              { slot: 'evening' as const, name: 'Riverside', lat: 15.5 + 1 * KM, lng: 73.8 },
+            ],
+          }
+        : day
+    );
+    const repaired = [{ code: 'mustInclude' as const, message: 'Fort Aguada is missing.' }];
+    return {
+      ...output,
+      itinerary,
+      feasibility: feasibilityFor({ ...output, itinerary }, input),
+      validation: { ...output.validation, rounds: 1, repaired },
+    };
+  }
+
+  it('visits the places in the suggested order and checks the itinerary again', () => {
+    const trip = zigZagTrip();
+
+    const reordered = withReorderedDay(trip, input, 1);
+
+    expect(reordered.itinerary[0].places?.map((place) => [place.slot, place.name])).toEqual([
+      ['morning', 'Old Town'],
+      ['evening', 'Museum'],
+      ['afternoon', 'Riverside'],
+    ]);
+    expect(reordered.feasibility[0].suggestedOrder).toBeUndefined();
+    const { issues, valid } = validationReportFor(reordered, input);
+    expect(reordered.validation).toEqual({ ...trip.validation, issues, valid });
+  });
+
+  it('leaves a day without a better order as it is', () => {
+    const trip = zigZagTrip();
+
+    expect(withReorderedDay(trip, input, 2)).toBe(trip);
+  });
+});
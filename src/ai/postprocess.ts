@@ -0,0 +1,153 @@
+/**
+ * @fileOverview Deterministic post-processing shared by the itinerary flows.
+ *
+ * - withNormalizedCosts - Converts the costs of a draft into the requested currency.
+ * - withKnownPlaces - Takes the name, coordinates and hours of dataset places from the dataset.
+ * - priceCheckFor - Reconciles a draft's costs with the rate-table prediction.
+ * - validationReportFor - Checks a draft against the hard requirements of the request.
+ * - feasibilityFor - Estimates each day's travel time and checks it against the pace.
+ * - budgetCapAfter - Rechecks the budget cap of an edited draft.
+ * - substitutionsAfter - Drops the substitutions of days an edit rewrote.
+ * - withReorderedDay - Visits a day's places in the order its feasibility check suggests.
+ */
+
+import type {
+  BudgetCap,
+  GeneratePersonalizedItineraryInput,
+  GeneratePersonalizedItineraryOutput,
+  ItineraryDraft,
+  Substitution,
+  ValidationReport,
+} from '@/ai/schemas';
+import {normalizeCostCurrency, summarizeCosts} from '@/lib/costs';
+import {convertCurrency, isSupportedCurrency} from '@/lib/currency';
+import {validateItinerary, type ValidationIssue} from '@/lib/itinerary-validation';
+import {getPointOfInterest} from '@/lib/poi';
+import {dayFeasibility, reorderDay} from '@/lib/travel';
+import {predictTripCost} from '@/lib/pricing/predict';
+import {reconcileCosts} from '@/lib/pricing/reconcile';
+
+/**
+ * Day subtotals and journey costs carry no currency of their own, so they are
+ * taken to be in the currency the model priced the cost breakdown in.
+ */
+export function withNormalizedCosts(draft: ItineraryDraft, currency: string): ItineraryDraft {
+  const draftCurrency = draft.costBreakdown[0]?.currency ?? currency;
+  const convert = (amount: number) =>
+    draftCurrency === currency || !isSupportedCurrency(draftCurrency)
+      ? amount
+      : convertCurrency(amount, draftCurrency, currency);
+  return {
+    ...draft,
+    itinerary: draft.itinerary.map(day => ({...day, subtotal: convert(day.subtotal)})),
+    costBreakdown: normalizeCostCurrency(draft.costBreakdown, currency),
+    transportLegs: draft.transportLegs.map(leg => ({...leg, cost: convert(leg.cost)})),
+  };
+}
+
+/**
+ * The model may misspell a place or misplace its pin; for places it found
+ * with the points-of-interest tool, the dataset is authoritative.
+ */
+export function withKnownPlaces(draft: ItineraryDraft): ItineraryDraft {
+  return {
+    ...draft,
+    itinerary: draft.itinerary.map(day => ({
+      ...day,
+      places: day.places?.map(place => {
+        const poi = place.poiId ? getPointOfInterest(place.poiId) : undefined;
+        return poi
+          ? {...place, name: poi.name, lat: poi.lat, lng: poi.lng, openingHours: poi.openingHours}
+          : place;
+      }),
+    })),
+  };
+}
+
+/**
+ * Checks the draft's costs against the price model. The trip is priced on the
+ * requested dates rather than the draft's, which may be malformed when repair
+ * could not fix them.
+ */
+export function priceCheckFor(draft: ItineraryDraft, input: GeneratePersonalizedItineraryInput) {
+  return reconcileCosts(summarizeCosts(draft.costBreakdown, input.travelers), predictTripCost(input));
+}
+
+/**
+ * Validates the final draft. `initialIssues` are the issues of the first
+ * draft, so the report can say which of them the repair rounds fixed.
+ */
+export function validationReportFor(
+  draft: ItineraryDraft,
+  input: GeneratePersonalizedItineraryInput,
+  rounds = 0,
+  initialIssues: ValidationIssue[] = []
+): ValidationReport {
+  const issues = validateItinerary(draft.itinerary, input, draft.transportLegs);
+  const remaining = new Set(issues.map(issue => issue.message));
+  return {
+    valid: issues.length === 0,
+    rounds,
+    issues,
+    repaired: initialIssues.filter(issue => !remaining.has(issue.message)),
+  };
+}
+
+export function feasibilityFor(draft: ItineraryDraft, input: GeneratePersonalizedItineraryInput) {
+  return draft.itinerary.map(day => dayFeasibility(day, input.pace));
+}
+
+/**
+ * Whether an edited draft still fits `input.maxBudget`. The downgrade rounds
+ * and their explanation are carried over from the cap of the draft before the
+ * edit, since edits do not run the downgrade again.
+ */
+export function budgetCapAfter(
+  previous: BudgetCap | undefined,
+  draft: ItineraryDraft,
+  input: GeneratePersonalizedItineraryInput
+): BudgetCap | undefined {
+  if (input.maxBudget === undefined) return undefined;
+  const total = summarizeCosts(draft.costBreakdown, input.travelers).total.amount;
+  const withinBudget = total <= input.maxBudget;
+  return {
+    maxBudget: input.maxBudget,
+    total,
+    withinBudget,
+    rounds: previous?.rounds ?? 0,
+    explanation: withinBudget
+      ? undefined
+      : previous?.explanation ?? 'The edited itinerary costs more than the budget.',
+  };
+}
+
+/** A rewritten day may no longer plan what its substitutions replaced, so they are dropped. */
+export function substitutionsAfter(substitutions: Substitution[], changedDays: number[]): Substitution[] {
+  return substitutions.filter(
+    substitution => substitution.day === undefined || !changedDays.includes(substitution.day)
+  );
+}
+
+/**
+ * Visits the places of `day` in the order its feasibility check suggests.
+ * Issues tied to a slot move with the reorder, so the itinerary is checked
+ * afresh; what the repair rounds fixed stays in the report.
+ */
+export function withReorderedDay(
+  itinerary: GeneratePersonalizedItineraryOutput,
+  input: GeneratePersonalizedItineraryInput,
+  day: number
+): GeneratePersonalizedItineraryOutput {
+  const order = itinerary.feasibility.find(item => item.day === day)?.suggestedOrder;
+  if (!order) return itinerary;
+  const draft = {
+    ...itinerary,
+    itinerary: itinerary.itinerary.map(item => (item.day === day ? reorderDay(item, order) : item)),
+  };
+  const {issues, valid} = validationReportFor(draft, input);
+  return {
+    ...draft,
+    feasibility: feasibilityFor(draft, input),
+    validation: {...itinerary.validation, issues, valid},
+  };
+}
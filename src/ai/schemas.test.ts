@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+
+import { GeneratePersonalizedItineraryInputSchema, OpeningHoursRuleSchema } from '@/ai/schemas';
+
+const validInput = {
+  stops: [{ destination: 'Goa, India', days: 3 }],
+  startDate: '2030-12-20',
+  days: 3,
+  interests: 'Beaches, Food',
+};
+
+describe('GeneratePersonalizedItineraryInputSchema', () => {
+  it('fills in the defaults', () => {
+    expect(GeneratePersonalizedItineraryInputSchema.parse(validInput)).toEqual({
+      ...validInput,
+      budget: 'Medium',
+      travelers: 2,
+      currency: 'USD',
+      pace: 'Balanced',
+    });
+  });
+
+  it.each([
+    ['too few days', { days: 0, stops: [{ destination: 'Goa, India', days: 0 }] }],
+    ['too many days', { days: 22, stops: [{ destination: 'Goa, India', days: 22 }] }],
+    ['no stops', { stops: [] }],
+    ['a stop without a destination', { stops: [{ destination: '', days: 3 }] }],
+    ['stops that do not add up to the trip length', { stops: [{ destination: 'Goa, India', days: 2 }] }],
+    ['no travelers', { travelers: 0 }],
+    ['an unknown budget level', { budget: 'Cheap' }],
+    ['an unknown pace', { pace: 'Frantic' }],
+    ['an unsupported currency', { currency: 'XYZ' }],
+    ['a zero budget cap', { maxBudget: 0 }],
+    ['a negative budget cap', { maxBudget: -100 }],
+    ['days given as a string', { days: '3' }],
+    ['a fractional day count', { days: 2.5 }],
+    ['an end date that is not the last travel day', { endDate: '2030-12-23' }],
+    ['a start date in another format', { startDate: '20/12/2030' }],
+    ['a start date that does not exist', { startDate: '2030-02-30' }],
+    ['a malformed start date with an end date', { startDate: 'soon', endDate: '2030-12-22' }],
+    ['a malformed end date', { endDate: 'December 22' }],
+  ])('rejects %s', (_, override) => {
+    expect(GeneratePersonalizedItineraryInputSchema.safeParse({ ...validInput, ...override }).success).toBe(false);
+  });
+
+  it.each(['stops', 'startDate', 'days', 'interests'])('requires %s', key => {
+    const input: Record<string, unknown> = { ...validInput };
+    delete input[key];
+    expect(GeneratePersonalizedItineraryInputSchema.safeParse(input).success).toBe(false);
+  });
+
+  it('accepts the boundary day counts', () => {
+    const trip = (days: number) => ({ ...validInput, days, stops: [{ destination: 'Goa, India', days }] });
+    expect(GeneratePersonalizedItineraryInputSchema.safeParse(trip(1)).success).toBe(true);
+    expect(GeneratePersonalizedItineraryInputSchema.safeParse(trip(21)).success).toBe(true);
+  });
+
+  it('accepts an end date on the last travel day, across a month boundary', () => {
+    const stops = [{ destination: 'Goa, India', days: 21 }];
+    expect(
+      GeneratePersonalizedItineraryInputSchema.safeParse({ ...validInput, stops, days: 21, endDate: '2031-01-09' }).success
+    ).toBe(true);
+  });
+
+  it('accepts several stops whose days add up to the trip length', () => {
+    const stops = [
+      { destination: 'Mumbai, India', days: 3 },
+      { destination: 'Goa, India', days: 4 },
+    ];
+    expect(GeneratePersonalizedItineraryInputSchema.safeParse({ ...validInput, stops, days: 7 }).success).toBe(true);
+  });
+});
+
+describe('OpeningHoursRuleSchema', () => {
+  it('accepts times in HH:mm, up to midnight', () => {
+    expect(OpeningHoursRuleSchema.safeParse({ days: [0, 6], open: '09:30', close: '24:00' }).success).toBe(true);
+  });
+
+  it.each(['9:30', '25:00', '12:60', '24:30', 'noon'])('rejects the time %s', time => {
+    expect(OpeningHoursRuleSchema.safeParse({ days: [1], open: time, close: '18:00' }).success).toBe(false);
+  });
+});
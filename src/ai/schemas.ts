@@ -0,0 +1,286 @@
+/**
+ * @fileOverview Zod schemas shared by the itinerary flows.
+ *
+ * These live outside the flow files because modules marked 'use server' may
+ * only export async functions.
+ */
+
+import {COST_CATEGORIES} from '@/lib/costs';
+import {SUPPORTED_CURRENCIES} from '@/lib/currency';
+import {ITINERARY_SLOTS} from '@/lib/itinerary';
+import {addDays} from '@/lib/dates';
+import {MAX_STOPS, MAX_TRIP_DAYS, totalDays} from '@/lib/trip-stops';
+import {z} from 'genkit';
+
+/** A calendar date in YYYY-MM-DD form that exists. */
+const IsoDateSchema = z.string().date('Dates must be real calendar dates in YYYY-MM-DD form.');
+
+/** A time of day in HH:mm form; 24:00 closes a place at midnight. */
+const TimeOfDaySchema = z.string().regex(/^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Times must be in HH:mm form.');
+
+export const TripStopSchema = z.object({
+  destination: z.string().min(1).describe('The destination of this stop (e.g., Goa, India).'),
+  days: z.number().int().min(1).max(MAX_TRIP_DAYS).describe('The number of days spent at this stop.'),
+});
+
+/**
+ * The fields of a trip request. Prompts that need extra inputs extend this;
+ * everything else should use GeneratePersonalizedItineraryInputSchema, which
+ * also checks that the stops add up to the trip length.
+ */
+export const TripRequestSchema = z.object({
+  stops: z
+    .array(TripStopSchema)
+    .min(1)
+    .max(MAX_STOPS)
+    .describe('The destinations of the trip, in the order they are visited.'),
+  startDate: IsoDateSchema.describe('The start date of the trip (YYYY-MM-DD).'),
+  endDate: IsoDateSchema.optional()
+    .describe('The last day of the trip (YYYY-MM-DD); the trip runs from the start date to this date inclusive.'),
+  days: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_TRIP_DAYS)
+    .describe('The total number of travel days, across all stops.'),
+  budget: z.enum(['Low', 'Medium', 'Luxury']).default('Medium').describe('The budget level for the trip.'),
+  travelers: z.number().min(1).default(2).describe('The number of travelers.'),
+  currency: z
+    .enum(SUPPORTED_CURRENCIES)
+    .default('USD')
+    .describe("The ISO 4217 code of the traveler's home currency; all costs are returned in it."),
+  maxBudget: z
+    .number()
+    .positive()
+    .optional()
+    .describe('A hard cap on the total trip cost for the whole group, in the requested currency.'),
+  interests: z
+    .string()
+    .describe(
+      'A comma-separated list of interests (e.g., Beaches, Food, Shopping, History, Adventure).'
+    ),
+  pace: z.enum(['Relaxed', 'Balanced', 'Intense']).default('Balanced').describe('The preferred travel pace.'),
+  mustInclude: z
+    .string()
+    .optional()
+    .describe(
+      'A comma-separated list of specific places or activities that must be included in the itinerary.'
+    ),
+  avoid: z
+    .string()
+    .optional()
+    .describe('A comma-separated list of things to avoid.'),
+  notes: z.string().optional().describe('Any additional notes or constraints.'),
+});
+
+export const GeneratePersonalizedItineraryInputSchema = TripRequestSchema.refine(
+  input => totalDays(input.stops) === input.days,
+  {message: 'The days of the stops must add up to the number of travel days.', path: ['stops']}
+).refine(
+  // Zod still runs refinements after a field fails, and a malformed start date has no days to add.
+  input =>
+    !input.endDate ||
+    !IsoDateSchema.safeParse(input.startDate).success ||
+    addDays(input.startDate, input.days - 1) === input.endDate,
+  {message: 'The end date must fall on the last of the travel days.', path: ['endDate']}
+);
+
+export type GeneratePersonalizedItineraryInput = z.infer<
+  typeof GeneratePersonalizedItineraryInputSchema
+>;
+
+export const OpeningHoursRuleSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).describe('The days of the week, 0 (Sunday) to 6 (Saturday).'),
+  open: TimeOfDaySchema.describe('The opening time, HH:mm.'),
+  close: TimeOfDaySchema.describe(
+    'The closing time, HH:mm; at or before the opening time if it runs past midnight.'
+  ),
+});
+
+export const PlaceReferenceSchema = z.object({
+  slot: z.enum(ITINERARY_SLOTS).describe('The time slot whose activity takes place here.'),
+  poiId: z
+    .string()
+    .optional()
+    .describe('The ID of the place, if it was returned by the searchPointsOfInterest tool.'),
+  name: z.string().describe('The name of the place.'),
+  lat: z.number().describe('The latitude of the place.'),
+  lng: z.number().describe('The longitude of the place.'),
+  openingHours: z
+    .array(OpeningHoursRuleSchema)
+    .optional()
+    .describe('When the place is open, one entry per opening period; omit if it is always open or unknown.'),
+});
+
+export const ItineraryItemSchema = z.object({
+  day: z.number().describe('The day number in the itinerary.'),
+  date: z.string().describe('The date for this day in YYYY-MM-DD format.'),
+  morning: z.string().describe('A suggested morning activity.'),
+  afternoon: z.string().describe('A suggested afternoon activity.'),
+  evening: z.string().describe('A suggested evening activity.'),
+  subtotal: z
+    .number()
+    .describe('The estimated cost of this day for the whole group, in the itinerary currency.'),
+  places: z
+    .array(PlaceReferenceSchema)
+    .optional()
+    .describe('Where each activity of this day takes place, one entry per slot.'),
+});
+
+export const CostLineItemSchema = z.object({
+  category: z.enum(COST_CATEGORIES).describe('The cost category of this line item.'),
+  amount: z.number().describe('The most likely cost.'),
+  currency: z.string().describe('The ISO 4217 currency code of the amounts (e.g., USD).'),
+  basis: z
+    .enum(['perPerson', 'perGroup'])
+    .describe('Whether the amounts are per traveler or for the whole group.'),
+  low: z.number().describe('The low end of the expected cost range.'),
+  high: z.number().describe('The high end of the expected cost range.'),
+});
+
+export type CostLineItem = z.infer<typeof CostLineItemSchema>;
+
+export const TRANSPORT_MODES = ['flight', 'train', 'bus', 'car', 'ferry'] as const;
+
+export const TransportLegSchema = z.object({
+  from: z.string().describe('The stop the leg leaves from, as written in the request.'),
+  to: z.string().describe('The stop the leg arrives at, as written in the request.'),
+  date: z.string().describe('The travel date (YYYY-MM-DD): the first day at the arriving stop.'),
+  mode: z.enum(TRANSPORT_MODES).describe('How the travelers get there.'),
+  durationHours: z.number().describe('The door-to-door travel time in hours.'),
+  cost: z.number().describe('The estimated cost for the whole group, in the itinerary currency.'),
+  notes: z.string().optional().describe('Booking advice, such as which train or airport to use.'),
+});
+
+/** The itinerary as the model writes it, before any post-processing. */
+export const ItineraryDraftSchema = z.object({
+  summary: z.string().describe('A summary of the trip itinerary.'),
+  itinerary: z.array(ItineraryItemSchema).describe('The generated travel itinerary.'),
+  costBreakdown: z
+    .array(CostLineItemSchema)
+    .describe('The estimated trip cost, one line item per cost category.'),
+  transportLegs: z
+    .array(TransportLegSchema)
+    .describe('The journeys between consecutive stops, in order; empty for a single-destination trip.'),
+  tips: z.string().describe('Helpful tips for the trip.'),
+});
+
+/** What the generate flow streams: the summary and every day finished so far. */
+export const ItineraryPreviewSchema = z.object({
+  summary: z.string().optional().describe('The trip summary, once it is complete.'),
+  itinerary: z.array(ItineraryItemSchema).describe('The days that are complete so far.'),
+});
+
+export const PriceCheckSchema = z.object({
+  rateTableVersion: z.string().describe('The rate table version used for the prediction.'),
+  currency: z.string().describe('The currency of the predicted and model totals.'),
+  predictedLow: z.number().describe('The low end of the predicted group total.'),
+  predictedHigh: z.number().describe('The high end of the predicted group total.'),
+  modelTotal: z.number().describe('The group total of the model cost breakdown.'),
+  deviation: z.number().describe('How far the model total lies outside the predicted range.'),
+  flagged: z.boolean().describe('Whether the model total disagrees strongly with the prediction.'),
+  flaggedCategories: z
+    .array(z.enum(COST_CATEGORIES))
+    .describe('Categories whose model cost disagrees strongly with the prediction.'),
+  message: z.string().describe('A human-readable summary of the comparison.'),
+  days: z
+    .array(
+      z.object({
+        date: z.string().describe('The itinerary date (YYYY-MM-DD).'),
+        season: z.enum(['off', 'shoulder', 'peak']).describe('The season on this date.'),
+        holiday: z.string().optional().describe('The holiday falling on this date, if any.'),
+        weekend: z.boolean().describe('Whether the night starting on this date carries a weekend premium.'),
+        low: z.number().describe('The low end of the predicted cost of this day.'),
+        high: z.number().describe('The high end of the predicted cost of this day.'),
+      })
+    )
+    .describe('The predicted cost of each itinerary day, adjusted for season, holidays and weekends.'),
+});
+
+export const SubstitutionSchema = z.object({
+  day: z.number().optional().describe('The day number the substitution applies to, if it is day-specific.'),
+  category: z.enum(COST_CATEGORIES).describe('The cost category that became cheaper.'),
+  original: z.string().describe('What was planned before.'),
+  replacement: z.string().describe('The cheaper alternative that replaced it.'),
+  estimatedSaving: z.number().describe('The estimated saving for the whole group, in the requested currency.'),
+});
+
+export const BudgetCapSchema = z.object({
+  maxBudget: z.number().describe('The requested cap on the group total.'),
+  total: z.number().describe('The group total of the final cost breakdown.'),
+  withinBudget: z.boolean().describe('Whether the final itinerary fits the cap.'),
+  rounds: z.number().describe('How many downgrade rounds were run.'),
+  explanation: z
+    .string()
+    .optional()
+    .describe('Why the itinerary could not be brought within the cap, if it could not.'),
+});
+
+export const ValidationIssueSchema = z.object({
+  code: z
+    .enum(['dayCount', 'dayNumber', 'date', 'mustInclude', 'avoid', 'unknownPlace', 'closed', 'wrongStop', 'transport'])
+    .describe('Which requirement the itinerary breaks.'),
+  day: z.number().optional().describe('The day the issue was found on, if it is day-specific.'),
+  slot: z.enum(ITINERARY_SLOTS).optional().describe('The slot the issue was found in, if it is slot-specific.'),
+  message: z.string().describe('A human-readable description of the issue.'),
+});
+
+export const ValidationReportSchema = z.object({
+  valid: z.boolean().describe('Whether the final itinerary meets every requirement.'),
+  rounds: z.number().describe('How many repair rounds were run.'),
+  issues: z.array(ValidationIssueSchema).describe('The issues left in the final itinerary.'),
+  repaired: z
+    .array(ValidationIssueSchema)
+    .describe('The issues found in the first draft that the repair rounds fixed.'),
+});
+
+export const TravelLegSchema = z.object({
+  from: z.enum(ITINERARY_SLOTS).describe('The slot the leg starts from.'),
+  to: z.enum(ITINERARY_SLOTS).describe('The slot the leg leads to.'),
+  distanceKm: z.number().describe('The estimated road distance in kilometres.'),
+  minutes: z.number().describe('The estimated travel time in minutes.'),
+  mode: z.enum(['walk', 'transit']).describe('Whether the leg is short enough to walk.'),
+});
+
+export const DayFeasibilitySchema = z.object({
+  day: z.number().describe('The day number.'),
+  legs: z.array(TravelLegSchema).describe('The travel between consecutive stops of the day.'),
+  totalMinutes: z.number().describe('The total travel time of the day.'),
+  limitMinutes: z.number().describe('The most travel time the pace allows for a day.'),
+  feasible: z.boolean().describe('Whether the travel time is within the limit.'),
+  suggestedOrder: z
+    .array(z.enum(ITINERARY_SLOTS))
+    .optional()
+    .describe('A faster visiting order, listed by the slot each stop occupies now.'),
+  savedMinutes: z.number().optional().describe('The travel time the suggested order saves.'),
+});
+
+export const GeneratePersonalizedItineraryOutputSchema = ItineraryDraftSchema.extend({
+  priceCheck: PriceCheckSchema.describe(
+    'How the model cost breakdown compares with the rate-table price prediction.'
+  ),
+  substitutions: z
+    .array(SubstitutionSchema)
+    .describe('Cheaper substitutions made to fit the itinerary within maxBudget.'),
+  budgetCap: BudgetCapSchema.optional().describe('The outcome of enforcing maxBudget, if one was given.'),
+  feasibility: z
+    .array(DayFeasibilitySchema)
+    .describe('The estimated travel between activities of each day, checked against the pace.'),
+  validation: ValidationReportSchema.describe(
+    'How the itinerary fares against the day count, dates, mustInclude and avoid requirements.'
+  ),
+});
+
+export type GeneratePersonalizedItineraryOutput = z.infer<
+  typeof GeneratePersonalizedItineraryOutputSchema
+>;
+
+export type ItineraryDraft = z.infer<typeof ItineraryDraftSchema>;
+export type ItineraryPreview = z.infer<typeof ItineraryPreviewSchema>;
+export type ItineraryItem = z.infer<typeof ItineraryItemSchema>;
+export type PlaceReference = z.infer<typeof PlaceReferenceSchema>;
+export type TransportLeg = z.infer<typeof TransportLegSchema>;
+export type Substitution = z.infer<typeof SubstitutionSchema>;
+export type BudgetCap = z.infer<typeof BudgetCapSchema>;
+export type ValidationReport = z.infer<typeof ValidationReportSchema>;
+export type DayFeasibility = z.infer<typeof DayFeasibilitySchema>;
@@ -0,0 +1,59 @@
+/**
+ * @fileOverview Tools that let the model look up real places in the bundled
+ * points-of-interest dataset instead of inventing them.
+ *
+ * - searchPointsOfInterest - Lists the known places at a destination, optionally by interest.
+ * - getPointOfInterest - Returns the details of one place by its ID.
+ */
+
+import {ai} from '@/ai/genkit';
+import {OpeningHoursRuleSchema} from '@/ai/schemas';
+import {INTERESTS} from '@/lib/interests';
+import {findPointsOfInterest, getPointOfInterest as lookUpPointOfInterest} from '@/lib/poi';
+import {z} from 'genkit';
+
+/** How many places a single search returns, to keep the tool response small. */
+const MAX_RESULTS = 20;
+
+const PointOfInterestSchema = z.object({
+  id: z.string().describe('The place ID to reference in the itinerary.'),
+  name: z.string(),
+  destination: z.string(),
+  categories: z.array(z.enum(INTERESTS)),
+  description: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  openingHours: z
+    .array(OpeningHoursRuleSchema)
+    .optional()
+    .describe('When the place is open; plan each visit within these hours. Missing if it is always open.'),
+});
+
+export const searchPointsOfInterest = ai.defineTool(
+  {
+    name: 'searchPointsOfInterest',
+    description:
+      'Lists real places (sights, markets, beaches, temples, nightlife and so on) at a destination. Use it to choose the activities of an itinerary, and reference the returned IDs.',
+    inputSchema: z.object({
+      destination: z.string().describe('The destination as the traveler wrote it, e.g. "Goa, India".'),
+      categories: z
+        .array(z.enum(INTERESTS))
+        .optional()
+        .describe('Only return places matching at least one of these interests.'),
+    }),
+    outputSchema: z.array(PointOfInterestSchema),
+  },
+  async ({destination, categories}) => findPointsOfInterest(destination, categories).slice(0, MAX_RESULTS)
+);
+
+export const getPointOfInterest = ai.defineTool(
+  {
+    name: 'getPointOfInterest',
+    description: 'Returns the details of a place by the ID that searchPointsOfInterest gave for it.',
+    inputSchema: z.object({
+      id: z.string().describe('The place ID.'),
+    }),
+    outputSchema: PointOfInterestSchema.nullable(),
+  },
+  async ({id}) => lookUpPointOfInterest(id) ?? null
+);
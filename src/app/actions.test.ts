@@ -0,0 +1,241 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { generatePersonalizedItinerary } from '@/ai/flows/generate-personalized-itinerary';
+import { itineraryOutputFixture } from '@/ai/plugins/mock-fixtures';
+import {
+  addTripVersionAction,
+  currentUserAction,
+  generateItineraryAction,
+  getSharedTripAction,
+  getTripAction,
+  listTripsAction,
+  saveTripAction,
+  shareTripAction,
+  signInAction,
+  signOutAction,
+} from '@/app/actions';
+import { tripRepository } from '@/lib/trips/repository';
+
+vi.mock('@/ai/flows/generate-personalized-itinerary', () => ({
+  generatePersonalizedItinerary: vi.fn(),
+}));
+
+/** The cookies of the current request, shared by every action a test calls. */
+const cookieJar = new Map<string, string>();
+
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined),
+    set: (name: string, value: string) => cookieJar.set(name, value),
+    delete: (name: string) => cookieJar.delete(name),
+  }),
+}));
+
+async function signIn(name: string, email: string) {
+  const user = await signInAction({ provider: 'local', name, email });
+  if ('error' in user) throw new Error(user.error);
+  return user;
+}
+
+const input = {
+  stops: [{ destination: 'Lisbon, Portugal', days: 2 }],
+  startDate: '2030-05-10',
+  days: 2,
+  budget: 'Medium' as const,
+  travelers: 2,
+  currency: 'EUR' as const,
+  interests: 'Food',
+  pace: 'Balanced' as const,
+};
+
+const itinerary = itineraryOutputFixture(input);
+
+beforeEach(() => {
+  cookieJar.clear();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('generateItineraryAction', () => {
+  beforeEach(() => {
+    vi.mocked(generatePersonalizedItinerary).mockReset();
+  });
+
+  it('returns the itinerary when the flow succeeds', async () => {
+    const itinerary = { summary: 'Two days in Lisbon' };
+    vi.mocked(generatePersonalizedItinerary).mockResolvedValue(itinerary as any);
+
+    await expect(generateItineraryAction(input)).resolves.toBe(itinerary);
+    expect(generatePersonalizedItinerary).toHaveBeenCalledWith(input);
+  });
+
+  it('turns a thrown error into an error result', async () => {
+    const error = new Error('Model quota exceeded');
+    vi.mocked(generatePersonalizedItinerary).mockRejectedValue(error);
+
+    await expect(generateItineraryAction(input)).resolves.toEqual({
+      error: 'Failed to generate itinerary: Model quota exceeded',
+    });
+    expect(console.error).toHaveBeenCalledWith(error);
+  });
+
+  it('falls back to a generic message when the error has none', async () => {
+    vi.mocked(generatePersonalizedItinerary).mockRejectedValue({});
+
+    await expect(generateItineraryAction(input)).resolves.toEqual({
+      error: 'Failed to generate itinerary: An unknown error occurred.',
+    });
+  });
+
+  it('saves the itinerary as a new trip of the signed-in user when asked to, and returns its ID', async () => {
+    const user = await signIn('Ada', 'ada@example.com');
+    const itinerary = { summary: 'Two days in Lisbon' };
+    vi.mocked(generatePersonalizedItinerary).mockResolvedValue(itinerary as any);
+
+    const result = await generateItineraryAction(input, { persist: true });
+    expect(result).toMatchObject({ summary: 'Two days in Lisbon', tripId: expect.any(String) });
+
+    const tripId = (result as { tripId: string }).tripId;
+    const trip = await tripRepository().getTrip(tripId);
+    expect(trip).toMatchObject({ ownerId: user.uid, name: 'Lisbon, Portugal', input });
+    expect(await tripRepository().getVersion(tripId, trip!.currentVersionId)).toMatchObject({ itinerary });
+  });
+
+  it('asks for a sign-in before generating a trip to save', async () => {
+    await expect(generateItineraryAction(input, { persist: true })).resolves.toEqual({
+      error: 'Failed to save the trip: Sign in to save trips.',
+    });
+    expect(generatePersonalizedItinerary).not.toHaveBeenCalled();
+  });
+
+  it('reports a trip that could not be saved', async () => {
+    await signIn('Ada', 'ada@example.com');
+    vi.mocked(generatePersonalizedItinerary).mockResolvedValue({ summary: 'Two days in Lisbon' } as any);
+    vi.spyOn(tripRepository(), 'createTrip').mockRejectedValueOnce(new Error('Permission denied'));
+
+    await expect(generateItineraryAction(input, { persist: true })).resolves.toEqual({
+      error: 'Failed to save the trip: Permission denied',
+    });
+  });
+});
+
+describe('sign-in and saved trips', () => {
+  it('keeps the user signed in until they sign out', async () => {
+    await expect(currentUserAction()).resolves.toBeNull();
+
+    const user = await signIn('Ada', 'Ada@Example.com');
+    expect(user).toMatchObject({ name: 'Ada', email: 'ada@example.com' });
+    await expect(currentUserAction()).resolves.toEqual(user);
+
+    await signOutAction();
+    await expect(currentUserAction()).resolves.toBeNull();
+  });
+
+  it('turns invalid credentials into an error result', async () => {
+    await expect(signInAction({ provider: 'local', name: 'Ada', email: 'ada' })).resolves.toEqual({
+      error: 'Failed to sign in: Enter a valid email address.',
+    });
+    await expect(currentUserAction()).resolves.toBeNull();
+  });
+
+  it('refuses to save an incomplete trip', async () => {
+    await signIn('Ada', 'ada@example.com');
+    const trips = await listTripsAction();
+    await expect(saveTripAction(input, { summary: 'Two days' } as any)).resolves.toEqual({
+      error: 'Failed to save the trip: The itinerary is incomplete.',
+    });
+    await expect(saveTripAction({ ...input, days: 0 }, itinerary)).resolves.toEqual({
+      error: 'Failed to save the trip: The trip request is incomplete.',
+    });
+    await expect(saveTripAction({ ...input, startDate: '20/12/2030', endDate: '2030-12-22' }, itinerary)).resolves.toEqual({
+      error: 'Failed to save the trip: The trip request is incomplete.',
+    });
+    expect(await listTripsAction()).toEqual(trips);
+  });
+
+  it('only saves trips for a signed-in user', async () => {
+    await expect(saveTripAction(input, itinerary)).resolves.toEqual({
+      error: 'Failed to save the trip: Sign in to save trips.',
+    });
+    await expect(listTripsAction()).resolves.toEqual({ error: 'Failed to load your trips: Sign in to save trips.' });
+  });
+
+  it("lists and opens the user's own trips but not anyone else's", async () => {
+    const ada = await signIn('Ada', 'ada@example.com');
+    const saved = await saveTripAction(input, itinerary);
+    const tripId = (saved as { tripId: string }).tripId;
+
+    await expect(getTripAction(tripId)).resolves.toMatchObject({
+      trip: { id: tripId, ownerId: ada.uid },
+      versions: [{ number: 1, itinerary }],
+    });
+    expect(await listTripsAction()).toContainEqual(expect.objectContaining({ id: tripId }));
+
+    await signIn('Bob', 'bob@example.com');
+    await expect(getTripAction(tripId)).resolves.toEqual({
+      error: 'Failed to load the trip: This trip does not exist.',
+    });
+    await expect(addTripVersionAction(tripId, itinerary)).resolves.toEqual({
+      error: 'Failed to save the trip: This trip does not exist.',
+    });
+    expect(await listTripsAction()).not.toContainEqual(expect.objectContaining({ id: tripId }));
+  });
+
+  it('adds versions to a trip and returns them all when it is opened', async () => {
+    await signIn('Ada', 'ada@example.com');
+    const { tripId } = (await saveTripAction(input, itinerary)) as { tripId: string };
+    const edited = { ...itinerary, summary: 'Two slower days in Lisbon' };
+
+    await expect(addTripVersionAction(tripId, edited)).resolves.toMatchObject({ tripId, number: 2, itinerary: edited });
+    const opened = await getTripAction(tripId);
+    expect('error' in opened ? [] : opened.versions.map((version) => version.itinerary.summary)).toEqual([
+      itinerary.summary,
+      'Two slower days in Lisbon',
+    ]);
+    expect(opened).toMatchObject({ trip: { versionCount: 2 } });
+
+    await expect(addTripVersionAction(tripId, { summary: 'Two days' } as any)).resolves.toEqual({
+      error: 'Failed to save the trip: The itinerary is incomplete.',
+    });
+    expect(await getTripAction(tripId)).toMatchObject({ trip: { versionCount: 2 } });
+  });
+});
+
+describe('shared trips', () => {
+  it('publishes the itinerary as it is and opens it by ID, without an account', async () => {
+    await signIn('Ada', 'ada@example.com');
+    const result = await shareTripAction('Lisbon for two', input, itinerary);
+    cookieJar.clear();
+    expect(result).toEqual({ shareId: expect.stringMatching(/^[0-9A-Za-z_-]{10}$/) });
+
+    const share = await getSharedTripAction((result as { shareId: string }).shareId);
+    expect(share).toMatchObject({ name: 'Lisbon for two', input, itinerary });
+  });
+
+  it('names an unnamed share after its stops', async () => {
+    await signIn('Ada', 'ada@example.com');
+    const { shareId } = (await shareTripAction(' ', input, itinerary)) as { shareId: string };
+    await expect(getSharedTripAction(shareId)).resolves.toMatchObject({ name: 'Lisbon, Portugal' });
+  });
+
+  it('only shares trips for a signed-in user', async () => {
+    await expect(shareTripAction('Lisbon', input, itinerary)).resolves.toEqual({
+      error: 'Failed to share the trip: Sign in to share trips.',
+    });
+  });
+
+  it('refuses to share an incomplete or oversized itinerary', async () => {
+    await signIn('Ada', 'ada@example.com');
+    await expect(shareTripAction('Lisbon', input, { ...itinerary, tips: 'x'.repeat(200_000) })).resolves.toEqual({
+      error: 'Failed to share the trip: The trip is too large to share.',
+    });
+    await expect(shareTripAction('Lisbon', input, { summary: 'Two days' } as any)).resolves.toEqual({
+      error: 'Failed to share the trip: The itinerary is incomplete.',
+    });
+  });
+
+  it('reports links that lead nowhere', async () => {
+    const error = { error: 'Failed to open the shared trip: This link is not valid or the trip is no longer shared.' };
+    await expect(getSharedTripAction('AAAAAAAAAA')).resolves.toEqual(error);
+    await expect(getSharedTripAction('../trips/x')).resolves.toEqual(error);
+  });
+});
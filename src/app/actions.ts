@@ -5,17 +5,281 @@ import {
   type GeneratePersonalizedItineraryInput,
   type GeneratePersonalizedItineraryOutput,
 } from '@/ai/flows/generate-personalized-itinerary';
+import {
+  refineItinerary,
+  type RefineItineraryInput,
+  type RefineItineraryOutput,
+} from '@/ai/flows/refine-itinerary-chat';
+import {
+  regenerateItinerarySlot,
+  type RegenerateItinerarySlotInput,
+} from '@/ai/flows/regenerate-itinerary-slot';
+import { withReorderedDay } from '@/ai/postprocess';
+import {
+  GeneratePersonalizedItineraryInputSchema,
+  GeneratePersonalizedItineraryOutputSchema,
+} from '@/ai/schemas';
+import { currentUser, endSession, startSession } from '@/lib/auth/current-user';
+import type { SignInCredentials } from '@/lib/auth/providers';
+import type { SessionUser } from '@/lib/auth/session';
+import { verifySignIn } from '@/lib/auth/verify';
+import { tripTitle } from '@/lib/trip-stops';
+import {
+  tripRepository,
+  type ShareRecord,
+  type TripRecord,
+  type TripVersionRecord,
+} from '@/lib/trips/repository';
+import { isShareId } from '@/lib/trips/share-id';
+
+/**
+ * The longest a share may be as JSON. The longest trip the form allows comes
+ * to well under this, so only hand-made payloads are turned away.
+ */
+const MAX_SHARE_LENGTH = 200_000;
+
+type GenerateItineraryOptions = {
+  /** Save the itinerary as a new trip of the signed-in user and return its ID. */
+  persist?: boolean;
+};
+
+/** The signed-in user; saved trips are only for them. */
+async function requireUser(purpose = 'save trips'): Promise<SessionUser> {
+  const user = await currentUser();
+  if (!user) throw new Error(`Sign in to ${purpose}.`);
+  return user;
+}
+
+/**
+ * The trip with `tripId`, if it belongs to the signed-in user. Someone else's
+ * trip is reported as missing, so trip IDs give nothing away.
+ */
+async function ownedTrip(tripId: string): Promise<TripRecord> {
+  const user = await requireUser();
+  const trip = await tripRepository().getTrip(tripId);
+  if (!trip || trip.ownerId !== user.uid) throw new Error('This trip does not exist.');
+  return trip;
+}
+
+// Server actions can be called with anything, so what the browser sends is
+// checked before it is stored.
+function parseInput(input: GeneratePersonalizedItineraryInput): GeneratePersonalizedItineraryInput {
+  const parsed = GeneratePersonalizedItineraryInputSchema.safeParse(input);
+  if (!parsed.success) throw new Error('The trip request is incomplete.');
+  return parsed.data;
+}
+
+function parseItinerary(itinerary: GeneratePersonalizedItineraryOutput): GeneratePersonalizedItineraryOutput {
+  const parsed = GeneratePersonalizedItineraryOutputSchema.safeParse(itinerary);
+  if (!parsed.success) throw new Error('The itinerary is incomplete.');
+  return parsed.data;
+}
+
+async function createTrip(
+  owner: SessionUser,
+  input: GeneratePersonalizedItineraryInput,
+  itinerary: GeneratePersonalizedItineraryOutput
+): Promise<TripRecord> {
+  const { trip } = await tripRepository().createTrip({
+    ownerId: owner.uid,
+    name: tripTitle(input.stops),
+    input,
+    itinerary,
+  });
+  return trip;
+}
 
 export async function generateItineraryAction(
-  input: GeneratePersonalizedItineraryInput
-): Promise<GeneratePersonalizedItineraryOutput | { error: string }> {
+  input: GeneratePersonalizedItineraryInput,
+  options: GenerateItineraryOptions = {}
+): Promise<(GeneratePersonalizedItineraryOutput & { tripId?: string }) | { error: string }> {
+  // A trip that is to be saved needs an owner, so there is no point generating it without one.
+  let owner: SessionUser | undefined;
+  if (options.persist) {
+    try {
+      owner = await requireUser();
+    } catch (e: any) {
+      return { error: `Failed to save the trip: ${e.message}` };
+    }
+  }
+
+  let itinerary: GeneratePersonalizedItineraryOutput;
   try {
-    const itinerary = await generatePersonalizedItinerary(input);
-    return itinerary;
+    itinerary = await generatePersonalizedItinerary(input);
   } catch (e: any) {
     console.error(e);
     // Provide a more user-friendly error message
     const message = e.message || 'An unknown error occurred.';
     return { error: `Failed to generate itinerary: ${message}` };
   }
+  if (!owner) return itinerary;
+
+  try {
+    const trip = await createTrip(owner, input, itinerary);
+    return { ...itinerary, tripId: trip.id };
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to save the trip: ${message}` };
+  }
+}
+
+export async function regenerateItinerarySlotAction(
+  input: RegenerateItinerarySlotInput
+): Promise<GeneratePersonalizedItineraryOutput | { error: string }> {
+  try {
+    return await regenerateItinerarySlot(input);
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to regenerate this part of the itinerary: ${message}` };
+  }
+}
+
+/**
+ * Reorders a day of the itinerary on the server, which holds the place
+ * dataset that the checks afterwards need.
+ */
+export async function reorderItineraryDayAction(
+  input: GeneratePersonalizedItineraryInput,
+  itinerary: GeneratePersonalizedItineraryOutput,
+  day: number
+): Promise<GeneratePersonalizedItineraryOutput | { error: string }> {
+  try {
+    return withReorderedDay(parseItinerary(itinerary), parseInput(input), day);
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to reorder the day: ${message}` };
+  }
+}
+
+export async function refineItineraryAction(
+  input: RefineItineraryInput
+): Promise<RefineItineraryOutput | { error: string }> {
+  try {
+    return await refineItinerary(input);
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to refine itinerary: ${message}` };
+  }
+}
+
+export async function currentUserAction(): Promise<SessionUser | null> {
+  return currentUser();
+}
+
+export async function signInAction(credentials: SignInCredentials): Promise<SessionUser | { error: string }> {
+  try {
+    const user = await verifySignIn(credentials);
+    await startSession(user);
+    return user;
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to sign in: ${message}` };
+  }
+}
+
+export async function signOutAction(): Promise<void> {
+  await endSession();
+}
+
+/** Saves an itinerary generated in the browser as a new trip of the signed-in user. */
+export async function saveTripAction(
+  input: GeneratePersonalizedItineraryInput,
+  itinerary: GeneratePersonalizedItineraryOutput
+): Promise<{ tripId: string } | { error: string }> {
+  try {
+    const trip = await createTrip(await requireUser(), parseInput(input), parseItinerary(itinerary));
+    return { tripId: trip.id };
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to save the trip: ${message}` };
+  }
+}
+
+export async function listTripsAction(): Promise<TripRecord[] | { error: string }> {
+  try {
+    const user = await requireUser();
+    return await tripRepository().listTrips(user.uid);
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to load your trips: ${message}` };
+  }
+}
+
+/** A trip of the signed-in user with all its versions, oldest first. */
+export async function getTripAction(
+  tripId: string
+): Promise<{ trip: TripRecord; versions: TripVersionRecord[] } | { error: string }> {
+  try {
+    const trip = await ownedTrip(tripId);
+    const versions = await tripRepository().listVersions(trip.id);
+    if (!versions.some((version) => version.id === trip.currentVersionId)) {
+      throw new Error('The current version of this trip is missing.');
+    }
+    return { trip, versions };
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to load the trip: ${message}` };
+  }
+}
+
+/** Saves an edited or restored itinerary as the newest version of a trip of the signed-in user. */
+export async function addTripVersionAction(
+  tripId: string,
+  itinerary: GeneratePersonalizedItineraryOutput
+): Promise<TripVersionRecord | { error: string }> {
+  try {
+    const trip = await ownedTrip(tripId);
+    return await tripRepository().addVersion(trip.id, parseItinerary(itinerary));
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to save the trip: ${message}` };
+  }
+}
+
+/**
+ * Publishes the itinerary the user is looking at, exactly as it is, for a
+ * link that shows it to anyone. Sharing needs no account.
+ */
+export async function shareTripAction(
+  name: string,
+  input: GeneratePersonalizedItineraryInput,
+  itinerary: GeneratePersonalizedItineraryOutput
+): Promise<{ shareId: string } | { error: string }> {
+  try {
+    await requireUser('share trips');
+    const request = parseInput(input);
+    const snapshot = {
+      name: name.trim() || tripTitle(request.stops),
+      input: request,
+      itinerary: parseItinerary(itinerary),
+    };
+    if (JSON.stringify(snapshot).length > MAX_SHARE_LENGTH) throw new Error('The trip is too large to share.');
+    const share = await tripRepository().createShare(snapshot);
+    return { shareId: share.id };
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to share the trip: ${message}` };
+  }
+}
+
+export async function getSharedTripAction(shareId: string): Promise<ShareRecord | { error: string }> {
+  try {
+    const share = isShareId(shareId) ? await tripRepository().getShare(shareId) : null;
+    if (!share) throw new Error('This link is not valid or the trip is no longer shared.');
+    return share;
+  } catch (e: any) {
+    console.error(e);
+    const message = e.message || 'An unknown error occurred.';
+    return { error: `Failed to open the shared trip: ${message}` };
+  }
 }
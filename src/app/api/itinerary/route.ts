@@ -0,0 +1,5 @@
+import {generatePersonalizedItineraryFlow} from '@/ai/flows/generate-personalized-itinerary';
+import {appRoute} from '@genkit-ai/next';
+
+/** Streams itinerary generation to the client; see `streamFlow` in the page. */
+export const POST = appRoute(generatePersonalizedItineraryFlow);
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { DEFAULT_FORM_VALUES, formSchema, formValuesFromInput, restoreFormValues, tripLength } from '@/app/form-schema';
+
+const validValues = {
+  stops: [{ destination: 'Kyoto, Japan', days: 3 }],
+  startDate: new Date('2030-04-01T00:00:00Z'),
+  endDate: new Date('2030-04-03T00:00:00Z'),
+  interests: 'Culture',
+};
+
+function errorsFor(values: Record<string, unknown>) {
+  const result = formSchema.safeParse(values);
+  return result.success ? {} : result.error.flatten().fieldErrors;
+}
+
+describe('formSchema', () => {
+  it('accepts the defaults once the required fields are filled in', () => {
+    expect(formSchema.safeParse({ ...DEFAULT_FORM_VALUES, ...validValues }).success).toBe(true);
+  });
+
+  it('rejects the untouched default form with a message per required field', () => {
+    expect(errorsFor(DEFAULT_FORM_VALUES)).toEqual({
+      stops: ['Destination is required.'],
+      startDate: ['A start date is required.'],
+      endDate: ['An end date is required.'],
+      interests: ['Please select at least one interest.'],
+    });
+  });
+
+  it('coerces numeric strings from the inputs', () => {
+    const result = formSchema.parse({
+      ...validValues,
+      stops: [{ destination: 'Kyoto, Japan', days: '5' }],
+      endDate: new Date('2030-04-05T00:00:00Z'),
+      travelers: '4',
+      maxBudget: '1500',
+    });
+    expect(result).toMatchObject({ stops: [{ days: 5 }], travelers: 4, maxBudget: 1500 });
+  });
+
+  it('treats an empty budget cap as zero, which the page sends as no cap', () => {
+    expect(formSchema.parse({ ...validValues, maxBudget: '' }).maxBudget).toBe(0);
+  });
+
+  it('rejects a negative budget cap', () => {
+    expect(errorsFor({ ...validValues, maxBudget: -1 }).maxBudget).toEqual([
+      'The maximum budget cannot be negative.',
+    ]);
+  });
+
+  it.each([0, 22, 'abc'])('rejects a stop of %s days', (days) => {
+    expect(errorsFor({ ...validValues, stops: [{ destination: 'Kyoto, Japan', days }] })).toHaveProperty('stops');
+  });
+
+  it('accepts travel dates of up to 21 days, across a month boundary', () => {
+    const stops = [
+      { destination: 'Kyoto, Japan', days: 10 },
+      { destination: 'Tokyo, Japan', days: 11 },
+    ];
+    const endDate = new Date('2030-04-21T00:00:00Z');
+    expect(formSchema.safeParse({ ...validValues, stops, endDate }).success).toBe(true);
+    expect(
+      formSchema.safeParse({ ...validValues, stops, startDate: new Date('2030-03-25T00:00:00Z'), endDate: new Date('2030-04-14T00:00:00Z') })
+        .success
+    ).toBe(true);
+  });
+
+  it('rejects travel dates longer than 21 days or running backwards', () => {
+    const stops = [{ destination: 'Kyoto, Japan', days: 22 }];
+    expect(errorsFor({ ...validValues, stops, endDate: new Date('2030-04-22T00:00:00Z') }).endDate).toEqual([
+      'A trip can last at most 21 days.',
+    ]);
+    expect(errorsFor({ ...validValues, endDate: new Date('2030-03-31T00:00:00Z') }).endDate).toEqual([
+      'The end date cannot be before the start date.',
+    ]);
+  });
+
+  it('rejects stops that do not fill the travel dates', () => {
+    const stops = [
+      { destination: 'Kyoto, Japan', days: 2 },
+      { destination: 'Tokyo, Japan', days: 2 },
+    ];
+    expect(errorsFor({ ...validValues, stops }).stops).toEqual([
+      'The days of the stops must add up to the days between the travel dates.',
+    ]);
+  });
+
+  it.each([
+    ['travelers', 0],
+  ])('rejects %s = %s', (field, value) => {
+    expect(errorsFor({ ...validValues, [field]: value })).toHaveProperty(field);
+  });
+
+  it('rejects a start date given as a string', () => {
+    expect(errorsFor({ ...validValues, startDate: '2030-04-01' })).toHaveProperty('startDate');
+  });
+
+  it('rejects an unsupported currency', () => {
+    expect(errorsFor({ ...validValues, currency: 'XYZ' })).toHaveProperty('currency');
+  });
+});
+
+describe('tripLength', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('counts both travel dates, across a DST change', () => {
+    // The clocks go forward on 31 March 2030 in London, so that day is 23 hours long.
+    vi.stubEnv('TZ', 'Europe/London');
+    expect(tripLength(new Date(2030, 2, 30), new Date(2030, 3, 1))).toBe(3);
+    expect(tripLength(new Date(2030, 9, 26), new Date(2030, 9, 28))).toBe(3);
+    expect(tripLength(new Date(2030, 3, 1), new Date(2030, 3, 1))).toBe(1);
+  });
+});
+
+describe('restoreFormValues', () => {
+  it('revives the travel dates and keeps the stops', () => {
+    expect(
+      restoreFormValues({ ...validValues, startDate: '2030-04-01T00:00:00.000Z', endDate: '2030-04-03T00:00:00.000Z' })
+    ).toEqual(validValues);
+  });
+
+  it('gives a plan saved before trips had an end date one from its stops', () => {
+    expect(restoreFormValues({ ...validValues, endDate: undefined, startDate: '2030-04-01T00:00:00.000Z' })).toEqual(
+      validValues
+    );
+  });
+
+  it('turns a plan saved before trips had stops into a single stop', () => {
+    expect(restoreFormValues({ destination: 'Kyoto, Japan', days: 5, interests: 'Culture' })).toEqual({
+      stops: [{ destination: 'Kyoto, Japan', days: 5 }],
+      interests: 'Culture',
+    });
+  });
+});
+
+describe('formValuesFromInput', () => {
+  it('turns a request back into the form values that made it', () => {
+    const values = formSchema.parse(validValues);
+    const input = { ...values, startDate: '2030-04-01', endDate: '2030-04-03', days: 3 };
+    expect(formValuesFromInput(input)).toEqual({
+      ...values,
+      startDate: new Date(2030, 3, 1),
+      endDate: new Date(2030, 3, 3),
+    });
+    expect(formValuesFromInput({ ...input, endDate: undefined }).endDate).toEqual(new Date(2030, 3, 3));
+  });
+});
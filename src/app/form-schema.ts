@@ -0,0 +1,93 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { z } from 'zod';
+
+import type { GeneratePersonalizedItineraryInput } from '@/ai/schemas';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { MAX_STOPS, MAX_TRIP_DAYS, totalDays } from '@/lib/trip-stops';
+
+/**
+ * The number of days from `startDate` to `endDate`, counting both. Calendar
+ * days are compared rather than milliseconds, so a range that crosses a DST
+ * change is not a day short or long.
+ */
+export function tripLength(startDate: Date, endDate: Date): number {
+  return differenceInCalendarDays(endDate, startDate) + 1;
+}
+
+export const stopSchema = z.object({
+  destination: z.string().min(1, 'Destination is required.'),
+  days: z.coerce.number().int().min(1).max(MAX_TRIP_DAYS),
+});
+
+export const formSchema = z
+  .object({
+    stops: z.array(stopSchema).min(1).max(MAX_STOPS),
+    startDate: z.date({ required_error: 'A start date is required.' }),
+    endDate: z.date({ required_error: 'An end date is required.' }),
+    budget: z.enum(['Low', 'Medium', 'Luxury']).default('Medium'),
+    travelers: z.coerce.number().min(1).default(2),
+    currency: z.enum(SUPPORTED_CURRENCIES).default('USD'),
+    maxBudget: z.coerce.number().min(0, 'The maximum budget cannot be negative.').optional(),
+    interests: z.string().min(1, 'Please select at least one interest.'),
+    pace: z.enum(['Relaxed', 'Balanced', 'Intense']).default('Balanced'),
+    mustInclude: z.string().optional(),
+    avoid: z.string().optional(),
+    notes: z.string().optional(),
+  })
+  .refine((values) => tripLength(values.startDate, values.endDate) >= 1, {
+    message: 'The end date cannot be before the start date.',
+    path: ['endDate'],
+  })
+  .refine((values) => tripLength(values.startDate, values.endDate) <= MAX_TRIP_DAYS, {
+    message: `A trip can last at most ${MAX_TRIP_DAYS} days.`,
+    path: ['endDate'],
+  })
+  .refine((values) => totalDays(values.stops) === tripLength(values.startDate, values.endDate), {
+    message: 'The days of the stops must add up to the days between the travel dates.',
+    path: ['stops'],
+  });
+
+export type FormValues = z.infer<typeof formSchema>;
+
+export const DEFAULT_STOP: FormValues['stops'][number] = { destination: '', days: 3 };
+
+export const DEFAULT_FORM_VALUES: Partial<FormValues> = {
+  stops: [DEFAULT_STOP],
+  budget: 'Medium',
+  travelers: 2,
+  currency: 'USD',
+  interests: '',
+  pace: 'Balanced',
+  mustInclude: '',
+  avoid: '',
+  notes: '',
+};
+
+/**
+ * Turns form values saved as JSON (in localStorage or a share link) back into
+ * form values. Plans saved before trips had stops carry a single
+ * `destination` and `days`, which become the only stop, and plans saved
+ * before trips had an end date get one from the length of their stops.
+ */
+export function restoreFormValues(saved: Record<string, any>): Partial<FormValues> {
+  const { destination, days, ...values } = saved;
+  const stops: FormValues['stops'] | undefined =
+    values.stops ?? (destination ? [{ destination, days: Number(days) || DEFAULT_STOP.days }] : undefined);
+  const startDate = values.startDate ? new Date(values.startDate) : undefined;
+  const endDate = values.endDate
+    ? new Date(values.endDate)
+    : startDate && stops && addDays(startDate, totalDays(stops) - 1);
+  return {
+    ...values,
+    ...(stops && { stops }),
+    ...(startDate && { startDate }),
+    ...(endDate && { endDate }),
+  };
+}
+
+/** The form values that produce `input`, for reopening a saved trip. */
+export function formValuesFromInput(input: GeneratePersonalizedItineraryInput): FormValues {
+  const { days, endDate, ...values } = input;
+  const startDate = parseISO(input.startDate);
+  return { ...values, startDate, endDate: endDate ? parseISO(endDate) : addDays(startDate, days - 1) };
+}
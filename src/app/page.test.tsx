@@ -0,0 +1,457 @@
+import { cleanup, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { streamFlow } from '@genkit-ai/next/client';
+import { useSearchParams, type ReadonlyURLSearchParams } from 'next/navigation';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { itineraryOutputFixture } from '@/ai/plugins/mock-fixtures';
+import type { GeneratePersonalizedItineraryInput } from '@/ai/schemas';
+import {
+  currentUserAction,
+  getSharedTripAction,
+  getTripAction,
+  listTripsAction,
+  regenerateItinerarySlotAction,
+  saveTripAction,
+  shareTripAction,
+  signInAction,
+} from '@/app/actions';
+import HomePage from '@/app/page';
+
+vi.mock('next/navigation', () => ({
+  useSearchParams: vi.fn(),
+}));
+
+vi.mock('@genkit-ai/next/client', () => ({
+  streamFlow: vi.fn(),
+}));
+
+vi.mock('@/app/actions', () => ({
+  regenerateItinerarySlotAction: vi.fn(),
+  reorderItineraryDayAction: vi.fn(),
+  refineItineraryAction: vi.fn(),
+  currentUserAction: vi.fn(),
+  addTripVersionAction: vi.fn(),
+  signInAction: vi.fn(),
+  signOutAction: vi.fn(),
+  saveTripAction: vi.fn(),
+  listTripsAction: vi.fn(),
+  getTripAction: vi.fn(),
+  shareTripAction: vi.fn(),
+  getSharedTripAction: vi.fn(),
+}));
+
+function searchParams(query = '') {
+  vi.mocked(useSearchParams).mockReturnValue(new URLSearchParams(query) as ReadonlyURLSearchParams);
+}
+
+/** Answers streamFlow with the mock model's fixture for whatever input it is given. */
+function stubStreamFlow() {
+  vi.mocked(streamFlow).mockImplementation(({ input }): ReturnType<typeof streamFlow> => {
+    const output = itineraryOutputFixture(input as GeneratePersonalizedItineraryInput);
+    return {
+      stream: (async function* () {
+        yield { itinerary: output.itinerary.slice(0, 1) };
+      })(),
+      output: Promise.resolve(output),
+    };
+  });
+}
+
+/** A plan in the format share links used before trips had stops. */
+const sharedPlan = {
+  destination: 'Goa, India',
+  startDate: '2030-12-20T00:00:00.000Z',
+  days: 3,
+  budget: 'Medium',
+  travelers: 2,
+  currency: 'USD',
+  interests: 'Beaches, Food',
+  pace: 'Balanced',
+};
+
+function interestsInput(container: HTMLElement) {
+  return container.querySelector<HTMLInputElement>('input[name="interests"]')!;
+}
+
+/** Fills the form with `sharedPlan` as the last plan and generates it, as the user would. */
+async function generateSharedPlan(user: ReturnType<typeof userEvent.setup>) {
+  localStorage.setItem('last_itinerary_input', JSON.stringify(sharedPlan));
+  const view = render(<HomePage />);
+  await waitFor(() => expect(screen.getByPlaceholderText('e.g., Goa, India')).toHaveValue('Goa, India'));
+  await user.click(screen.getByRole('button', { name: 'Generate Itinerary' }));
+  await screen.findByText('A 3-day trip to Goa, India for 2 travelers.');
+  return view;
+}
+
+describe('ItineraryPlanner', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.mocked(streamFlow).mockReset();
+    stubStreamFlow();
+    searchParams();
+    vi.mocked(currentUserAction).mockResolvedValue(null);
+    vi.mocked(listTripsAction).mockResolvedValue([]);
+  });
+
+  it('toggles interests on and off', async () => {
+    const user = userEvent.setup();
+    const { container } = render(<HomePage />);
+
+    await user.click(screen.getByText('Beaches'));
+    await user.click(screen.getByText('History'));
+    expect(interestsInput(container)).toHaveValue('Beaches, History');
+
+    await user.click(screen.getByText('Beaches'));
+    expect(interestsInput(container)).toHaveValue('History');
+  });
+
+  it('fills the form from a single-destination plan link and generates it on request', async () => {
+    const user = userEvent.setup();
+    searchParams(`plan=${btoa(JSON.stringify(sharedPlan))}`);
+    const { container } = render(<HomePage />);
+
+    await waitFor(() => expect(screen.getByPlaceholderText('e.g., Goa, India')).toHaveValue('Goa, India'));
+    expect(interestsInput(container)).toHaveValue('Beaches, Food');
+    expect(streamFlow).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Generate Itinerary' }));
+    expect(await screen.findByText('A 3-day trip to Goa, India for 2 travelers.')).toBeInTheDocument();
+    expect(streamFlow).toHaveBeenCalledWith({
+      url: '/api/itinerary',
+      input: expect.objectContaining({
+        stops: [{ destination: 'Goa, India', days: 3 }],
+        days: 3,
+        startDate: '2030-12-20',
+        endDate: '2030-12-22',
+      }),
+    });
+  });
+
+  it('plans a trip with several stops and shows the journey between them', async () => {
+    const user = userEvent.setup();
+    localStorage.setItem(
+      'last_itinerary_input',
+      JSON.stringify({ ...sharedPlan, destination: undefined, days: undefined, stops: [{ destination: 'Mumbai, India', days: 2 }] })
+    );
+    render(<HomePage />);
+    await waitFor(() => expect(screen.getByLabelText('Stop 1 destination')).toHaveValue('Mumbai, India'));
+
+    await user.click(screen.getByRole('button', { name: 'Add stop' }));
+    await user.type(screen.getByLabelText('Stop 2 destination'), 'Goa, India');
+    await user.clear(screen.getByLabelText('Stop 2 days'));
+    await user.type(screen.getByLabelText('Stop 2 days'), '4');
+    expect(screen.getByText('6 days in total')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /generate itinerary/i }));
+
+    expect(await screen.findByText('Train from Mumbai, India to Goa, India')).toBeInTheDocument();
+    expect(within(screen.getByRole('main')).getByText('Mumbai, India → Goa, India')).toBeInTheDocument();
+    expect(streamFlow).toHaveBeenLastCalledWith({
+      url: '/api/itinerary',
+      input: expect.objectContaining({
+        stops: [
+          { destination: 'Mumbai, India', days: 2 },
+          { destination: 'Goa, India', days: 4 },
+        ],
+        days: 6,
+        startDate: '2030-12-20',
+        endDate: '2030-12-25',
+      }),
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Move stop 2 up' }));
+    expect(screen.getByLabelText('Stop 1 destination')).toHaveValue('Goa, India');
+    await user.click(screen.getByRole('button', { name: 'Remove stop 2' }));
+    expect(screen.queryByLabelText('Stop 2 destination')).not.toBeInTheDocument();
+    expect(screen.getByText('4 days in total')).toBeInTheDocument();
+  });
+
+  it('derives the trip length from the travel dates, across a month boundary', async () => {
+    const user = userEvent.setup();
+    searchParams(`plan=${btoa(JSON.stringify(sharedPlan))}`);
+    render(<HomePage />);
+    await waitFor(() => expect(screen.getByPlaceholderText('e.g., Goa, India')).toHaveValue('Goa, India'));
+
+    const travelDates = screen.getByRole('button', { name: 'Travel Dates' });
+    expect(travelDates).toHaveTextContent('December 20th, 2030 – December 22nd, 2030');
+    await user.click(travelDates);
+    // The range keeps its start, so a later day becomes the new end date.
+    const january = screen.getByRole('grid', { name: 'January 2031' });
+    await user.click(within(january).getAllByRole('gridcell', { name: '2' })[0]);
+    expect(screen.getByLabelText('Stop 1 days')).toHaveValue(14);
+    expect(screen.getByText('14 days in total')).toBeInTheDocument();
+    expect(travelDates).toHaveTextContent('December 20th, 2030 – January 2nd, 2031');
+    await user.click(screen.getByRole('button', { name: /generate itinerary/i }));
+
+    expect(await screen.findByText('A 14-day trip to Goa, India for 2 travelers.')).toBeInTheDocument();
+    expect(streamFlow).toHaveBeenLastCalledWith({
+      url: '/api/itinerary',
+      input: expect.objectContaining({
+        stops: [{ destination: 'Goa, India', days: 14 }],
+        days: 14,
+        startDate: '2030-12-20',
+        endDate: '2031-01-02',
+      }),
+    });
+  });
+
+  it('shares a snapshot of the itinerary on show', async () => {
+    const user = userEvent.setup();
+    vi.mocked(shareTripAction).mockResolvedValue({ shareId: 'Ab3dE_6h-J' });
+    await generateSharedPlan(user);
+
+    await user.click(screen.getByRole('button', { name: 'Share' }));
+
+    await waitFor(() => expect(shareTripAction).toHaveBeenCalledTimes(1));
+    const [name, input, itinerary] = vi.mocked(shareTripAction).mock.calls[0];
+    expect(name).toBe('Goa, India');
+    expect(itinerary).toEqual(await vi.mocked(streamFlow).mock.results[0].value.output);
+    expect(input).toMatchObject({ stops: [{ destination: 'Goa, India', days: 3 }], startDate: '2030-12-20' });
+    await waitFor(async () =>
+      expect(await navigator.clipboard.readText()).toBe(`${window.location.origin}/?share=Ab3dE_6h-J`)
+    );
+  });
+
+  it('opens a shared itinerary read-only, without calling the model', async () => {
+    const user = userEvent.setup();
+    const input = {
+      stops: [{ destination: 'Lisbon, Portugal', days: 2 }],
+      startDate: '2031-05-10',
+      endDate: '2031-05-11',
+      days: 2,
+      budget: 'Medium' as const,
+      travelers: 2,
+      currency: 'EUR' as const,
+      interests: 'Food',
+      pace: 'Balanced' as const,
+    };
+    const itinerary = { ...itineraryOutputFixture(input), summary: 'Exactly what the sender saw.' };
+    vi.mocked(getSharedTripAction).mockResolvedValue({
+      id: 'Ab3dE_6h-J',
+      name: 'Lisbon for two',
+      input,
+      itinerary,
+      createdAt: '2031-01-01T10:00:00.000Z',
+    });
+    localStorage.setItem('last_itinerary_input', JSON.stringify(sharedPlan));
+    searchParams('share=Ab3dE_6h-J');
+    render(<HomePage />);
+
+    expect(await screen.findByText('Exactly what the sender saw.')).toBeInTheDocument();
+    expect(getSharedTripAction).toHaveBeenCalledWith('Ab3dE_6h-J');
+    expect(screen.getByText('Shared trip')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Regenerate day 1' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /refine with chat/i })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Share' })).not.toBeInTheDocument();
+    expect(screen.queryByText('Split Costs')).not.toBeInTheDocument();
+    expect(screen.getByText('Plan Your Next Adventure')).not.toBeVisible();
+    expect(streamFlow).not.toHaveBeenCalled();
+
+    // Planning their own trip starts from the shared preferences.
+    await user.click(screen.getByRole('button', { name: 'Plan your own trip' }));
+    expect(screen.getByPlaceholderText('e.g., Goa, India')).toHaveValue('Lisbon, Portugal');
+    expect(screen.getByRole('button', { name: 'Regenerate day 1' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Share' })).toBeInTheDocument();
+  });
+
+  it('ignores a malformed share link', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    searchParams('plan=not-base64-json');
+    render(<HomePage />);
+
+    expect(await screen.findByText('Your Itinerary Awaits')).toBeInTheDocument();
+    expect(streamFlow).not.toHaveBeenCalled();
+  });
+
+  it('clears the form, the itinerary and the saved plan', async () => {
+    const user = userEvent.setup();
+    const { container } = await generateSharedPlan(user);
+
+    await user.click(screen.getByRole('button', { name: /clear/i }));
+
+    await waitFor(() => expect(screen.getByText('Your Itinerary Awaits')).toBeInTheDocument());
+    expect(screen.getByPlaceholderText('e.g., Goa, India')).toHaveValue('');
+    expect(interestsInput(container)).toHaveValue('');
+    expect(localStorage.getItem('last_itinerary_input')).toBeNull();
+  });
+
+  it('keeps every generated trip in the library, to reopen, rename, duplicate or delete', async () => {
+    const user = userEvent.setup();
+    await generateSharedPlan(user);
+    await user.click(screen.getByRole('button', { name: 'Toggle Sidebar' }));
+
+    await user.click(screen.getByRole('button', { name: 'Manage Goa, India' }));
+    await user.click(screen.getByRole('menuitem', { name: 'Rename' }));
+    await user.clear(screen.getByLabelText('Trip name'));
+    await user.type(screen.getByLabelText('Trip name'), 'Winter in Goa');
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+    expect(await screen.findByText('Winter in Goa')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Manage Winter in Goa' }));
+    await user.click(screen.getByRole('menuitem', { name: 'Duplicate' }));
+    expect(await screen.findByText('Winter in Goa (copy)')).toBeInTheDocument();
+    expect(JSON.parse(localStorage.getItem('trip_library')!).map((trip: { name: string }) => trip.name)).toEqual([
+      'Winter in Goa (copy)',
+      'Winter in Goa',
+    ]);
+
+    await user.click(screen.getByRole('button', { name: /clear/i }));
+    await screen.findByText('Your Itinerary Awaits');
+    await user.click(screen.getByText('Winter in Goa'));
+    expect(await screen.findByText('A 3-day trip to Goa, India for 2 travelers.')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('e.g., Goa, India')).toHaveValue('Goa, India');
+    expect(streamFlow).toHaveBeenCalledTimes(1);
+
+    await user.click(screen.getByRole('button', { name: 'Manage Winter in Goa (copy)' }));
+    await user.click(screen.getByRole('menuitem', { name: 'Delete' }));
+    await waitFor(() => expect(screen.queryByText('Winter in Goa (copy)')).not.toBeInTheDocument());
+    expect(JSON.parse(localStorage.getItem('trip_library')!)).toHaveLength(1);
+  });
+
+  it('reopens the trip changed most recently instead of generating it again', async () => {
+    const user = userEvent.setup();
+    await generateSharedPlan(user);
+    cleanup();
+
+    render(<HomePage />);
+
+    expect(await screen.findByText('A 3-day trip to Goa, India for 2 travelers.')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('e.g., Goa, India')).toHaveValue('Goa, India');
+    expect(screen.getByRole('button', { name: 'History' })).toBeInTheDocument();
+    expect(streamFlow).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(localStorage.getItem('trip_library')!)).toHaveLength(1);
+  });
+
+  it('titles the trip on show after its own stops while the form is edited', async () => {
+    const user = userEvent.setup();
+    await generateSharedPlan(user);
+
+    await user.clear(screen.getByPlaceholderText('e.g., Goa, India'));
+    await user.type(screen.getByPlaceholderText('e.g., Goa, India'), 'Lisbon, Portugal');
+
+    expect(screen.getByText('Goa, India', { selector: '.font-headline' })).toBeInTheDocument();
+    expect(screen.queryByText('Lisbon, Portugal', { selector: '.font-headline' })).not.toBeInTheDocument();
+  });
+
+  it('keeps the expense ledger with the trip, for the travelers it was planned for', async () => {
+    const user = userEvent.setup();
+    await generateSharedPlan(user);
+    await user.clear(screen.getByLabelText('Traveler 1 name'));
+    await user.type(screen.getByLabelText('Traveler 1 name'), 'Ada');
+    // Editing the form does not change who the trip on show was planned for.
+    await user.clear(screen.getByLabelText('Number of Travelers'));
+    await user.type(screen.getByLabelText('Number of Travelers'), '4');
+    expect(screen.queryByLabelText('Traveler 3 name')).not.toBeInTheDocument();
+    cleanup();
+
+    render(<HomePage />);
+
+    expect(await screen.findByLabelText('Traveler 1 name')).toHaveValue('Ada');
+    expect(screen.getByLabelText('Traveler 2 name')).toHaveValue('Traveler 2');
+  });
+
+  it('keeps every edit as a version, to compare with another or restore', async () => {
+    const user = userEvent.setup();
+    vi.mocked(regenerateItinerarySlotAction).mockImplementation(async ({ itinerary, day }) => ({
+      ...itinerary,
+      itinerary: itinerary.itinerary.map((item) =>
+        item.day === day ? { ...item, morning: 'Sunrise kayaking in the backwaters' } : item
+      ),
+    }));
+    await generateSharedPlan(user);
+
+    await user.click(screen.getByRole('button', { name: 'Regenerate day 2' }));
+    await user.click(screen.getByRole('button', { name: 'Regenerate' }));
+    expect(await screen.findByText('Sunrise kayaking in the backwaters')).toBeInTheDocument();
+    const generatedMorning = vi.mocked(regenerateItinerarySlotAction).mock.calls[0][0].itinerary.itinerary[1].morning;
+
+    await user.click(screen.getByRole('button', { name: 'History' }));
+    const history = screen.getByRole('dialog');
+    expect(within(history).getByText('Changes from version 1 to version 2')).toBeInTheDocument();
+    expect(within(history).getByText('Day 2')).toBeInTheDocument();
+    expect(within(history).getByText(generatedMorning)).toHaveClass('line-through');
+    expect(within(history).getByText('Sunrise kayaking in the backwaters')).toBeInTheDocument();
+
+    await user.click(within(history).getByRole('button', { name: 'Restore version 1' }));
+    expect(within(history).getByText('Restored from version 1', { exact: false })).toBeInTheDocument();
+    expect(within(history).getByText('Changes from version 2 to version 3')).toBeInTheDocument();
+    expect(screen.queryByText('Sunrise kayaking in the backwaters', { selector: 'main *' })).not.toBeInTheDocument();
+
+    // Comparing the generated itinerary with its restored copy shows no changes.
+    await user.click(within(history).getByRole('checkbox', { name: 'Compare version 1' }));
+    expect(within(history).getByText('Changes from version 1 to version 3')).toBeInTheDocument();
+    expect(within(history).getByText('No days changed.')).toBeInTheDocument();
+    expect(JSON.parse(localStorage.getItem('trip_library')!)[0].versions).toHaveLength(3);
+  });
+
+  it('signs in from the account menu and opens trips saved to the account', async () => {
+    const user = userEvent.setup();
+    const ada = { uid: 'local:ada', name: 'Ada Lovelace', email: 'ada@example.com' };
+    const input = {
+      stops: [{ destination: 'Lisbon, Portugal', days: 2 }],
+      startDate: '2031-05-10',
+      endDate: '2031-05-11',
+      days: 2,
+      budget: 'Medium' as const,
+      travelers: 2,
+      currency: 'EUR' as const,
+      interests: 'Food',
+      pace: 'Balanced' as const,
+    };
+    const accountTrip = {
+      id: 'trip-1',
+      ownerId: ada.uid,
+      name: 'Lisbon, Portugal',
+      input,
+      currentVersionId: 'version-1',
+      versionCount: 1,
+      createdAt: '2031-01-01T10:00:00.000Z',
+      updatedAt: '2031-01-01T10:00:00.000Z',
+    };
+    const itinerary = itineraryOutputFixture(input);
+    vi.mocked(signInAction).mockResolvedValue(ada);
+    vi.mocked(listTripsAction).mockResolvedValue([accountTrip]);
+    vi.mocked(getTripAction).mockResolvedValue({
+      trip: accountTrip,
+      versions: [{ id: 'version-1', tripId: 'trip-1', number: 1, itinerary, createdAt: accountTrip.createdAt }],
+    });
+    render(<HomePage />);
+
+    await user.click(screen.getByRole('button', { name: 'Account menu' }));
+    await user.click(await screen.findByRole('menuitem', { name: 'Sign in' }));
+    await user.type(screen.getByLabelText('Name'), 'Ada Lovelace');
+    await user.type(screen.getByLabelText('Email'), 'ada@example.com');
+    await user.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Sign in' }));
+    expect(signInAction).toHaveBeenCalledWith({ provider: 'local', name: 'Ada Lovelace', email: 'ada@example.com' });
+    expect(await screen.findByText('AL')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Toggle Sidebar' }));
+    expect(await screen.findByText('In your account')).toBeInTheDocument();
+    await user.click(screen.getByText('Lisbon, Portugal'));
+    expect(await screen.findByText('A 2-day trip to Lisbon, Portugal for 2 travelers.')).toBeInTheDocument();
+    expect(getTripAction).toHaveBeenCalledWith('trip-1');
+    expect(streamFlow).not.toHaveBeenCalled();
+    // The opened trip is now kept locally too, linked to the account copy.
+    expect(screen.queryByText('In your account')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Saved to your account')).toBeInTheDocument();
+  });
+
+  it('saves generated trips to the account of a signed-in user', async () => {
+    const user = userEvent.setup();
+    vi.mocked(currentUserAction).mockResolvedValue({ uid: 'local:ada', name: 'Ada Lovelace' });
+    vi.mocked(saveTripAction).mockResolvedValue({ tripId: 'trip-1' });
+    localStorage.setItem('last_itinerary_input', JSON.stringify(sharedPlan));
+    render(<HomePage />);
+    await screen.findByText('AL');
+
+    await user.click(screen.getByRole('button', { name: 'Generate Itinerary' }));
+    await screen.findByText('A 3-day trip to Goa, India for 2 travelers.');
+    await waitFor(() =>
+      expect(saveTripAction).toHaveBeenCalledWith(
+        expect.objectContaining({ startDate: '2030-12-20', endDate: '2030-12-22', days: 3 }),
+        expect.objectContaining({ itinerary: expect.any(Array) })
+      )
+    );
+    await waitFor(() => expect(JSON.parse(localStorage.getItem('trip_library')!)[0].remoteId).toBe('trip-1'));
+  });
+});
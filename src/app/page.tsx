@@ -1,102 +1,239 @@
 'use client';
 
+import { streamFlow } from '@genkit-ai/next/client';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { format } from 'date-fns';
-import { CalendarIcon, Coffee, Download, Loader2, Moon, RotateCcw, Share2, Sparkles, Sunset, Wand2 } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import { AlertTriangle, CalendarIcon, Download, Eye, Loader2, MapIcon, RotateCcw, Share2, Sparkles, Wand2 } from 'lucide-react';
+import dynamic from 'next/dynamic';
 import Image from 'next/image';
 import { useSearchParams } from 'next/navigation';
-import { Suspense, useCallback, useEffect, useState } from 'react';
+import { Fragment, Suspense, useCallback, useEffect, useState } from 'react';
+import type { DateRange } from 'react-day-picker';
 import { useForm } from 'react-hook-form';
-import { z } from 'zod';
 
-import { generateItineraryAction } from '@/app/actions';
+import {
+  addTripVersionAction,
+  currentUserAction,
+  getSharedTripAction,
+  getTripAction,
+  listTripsAction,
+  regenerateItinerarySlotAction,
+  reorderItineraryDayAction,
+  saveTripAction,
+  shareTripAction,
+} from '@/app/actions';
+import {
+  DEFAULT_FORM_VALUES,
+  formSchema,
+  formValuesFromInput,
+  restoreFormValues,
+  tripLength,
+  type FormValues,
+} from '@/app/form-schema';
+import { BudgetCapReport } from '@/components/budget-cap-report';
+import { CheapestStartDate } from '@/components/cheapest-start-date';
+import { CostBreakdownTable } from '@/components/cost-breakdown-table';
+import { ExpenseLedger } from '@/components/expense-ledger';
+import { FlexibleDateCalendar } from '@/components/flexible-date-calendar';
 import { AirplaneIcon } from '@/components/icons';
+import { ItineraryChatSheet } from '@/components/itinerary-chat-sheet';
+import { ItineraryDayCard } from '@/components/itinerary-day-card';
+import { RegenerateDayControl } from '@/components/regenerate-day-control';
+import { TransportLegCard } from '@/components/transport-leg-card';
+import { TripLibrarySidebar } from '@/components/trip-library-sidebar';
+import { TripStopsField } from '@/components/trip-stops-field';
+import { TripVersionHistory } from '@/components/trip-version-history';
+import { UserMenu } from '@/components/user-menu';
+import { ValidationReport } from '@/components/validation-report';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
-import type { GeneratePersonalizedItineraryOutput } from '@/ai/flows/generate-personalized-itinerary';
+import { useTripLibrary } from '@/hooks/use-trip-library';
+import type {
+  GeneratePersonalizedItineraryInput,
+  GeneratePersonalizedItineraryOutput,
+  ItineraryPreview,
+  generatePersonalizedItineraryFlow,
+} from '@/ai/flows/generate-personalized-itinerary';
+import type { SessionUser } from '@/lib/auth/session';
+import { COST_CATEGORY_LABELS, costCurrency, formatMoney } from '@/lib/costs';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { INTERESTS } from '@/lib/interests';
+import type { ItinerarySlot } from '@/lib/itinerary';
+import { findDestination } from '@/lib/pricing/destinations';
+import { createSavedTrip, MAX_TRIP_VERSIONS, readTripLibrary, type SavedTrip } from '@/lib/trip-library';
+import { fitStopsToDays, MAX_TRIP_DAYS, totalDays, tripTitle } from '@/lib/trip-stops';
+import type { TripRecord } from '@/lib/trips/repository';
 import { cn } from '@/lib/utils';
 
-const formSchema = z.object({
-  destination: z.string().min(1, 'Destination is required.'),
-  startDate: z.date({ required_error: 'A start date is required.' }),
-  days: z.coerce.number().min(1).max(21).default(3),
-  budget: z.enum(['Low', 'Medium', 'Luxury']).default('Medium'),
-  travelers: z.coerce.number().min(1).default(2),
-  interests: z.string().min(1, 'Please select at least one interest.'),
-  pace: z.enum(['Relaxed', 'Balanced', 'Intense']).default('Balanced'),
-  mustInclude: z.string().optional(),
-  avoid: z.string().optional(),
-  notes: z.string().optional(),
+// Leaflet needs the browser's window, so the map is never rendered on the server.
+const ItineraryMap = dynamic(() => import('@/components/itinerary-map').then((m) => m.ItineraryMap), {
+  ssr: false,
+  loading: () => <div className="h-80 w-full animate-pulse rounded-lg bg-muted" />,
 });
 
-type FormValues = z.infer<typeof formSchema>;
-
-const INTERESTS = [
-  'Beaches', 'Food', 'Shopping', 'History', 'Culture', 'Adventure', 
-  'Nature', 'Nightlife', 'Religious', 'Photography'
-];
+/** The local currency of the trip, if every stop uses the same one. */
+function localCurrency(stops: FormValues['stops']): string | undefined {
+  const currencies = new Set(stops.map((stop) => findDestination(stop.destination).currency));
+  return currencies.size === 1 ? [...currencies][0] : undefined;
+}
 
 function ItineraryPlanner() {
   const searchParams = useSearchParams();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [itinerary, setItinerary] = useState<GeneratePersonalizedItineraryOutput | null>(null);
+  const [itineraryInput, setItineraryInput] = useState<GeneratePersonalizedItineraryInput | null>(null);
+  const library = useTripLibrary();
+  const { save: saveTrip } = library;
+  const [tripId, setTripId] = useState<string | null>(null);
+  // A trip opened from a share link is shown read-only, without the form.
+  const [sharedView, setSharedView] = useState(false);
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [accountTrips, setAccountTrips] = useState<TripRecord[]>([]);
+  // The days streamed so far, with the input they are generated from.
+  const [preview, setPreview] = useState<(ItineraryPreview & { input: GeneratePersonalizedItineraryInput }) | null>(null);
+  const [focusedDay, setFocusedDay] = useState<number | null>(null);
+  const [datePickerOpen, setDatePickerOpen] = useState(false);
+  const [flexibleDates, setFlexibleDates] = useState(false);
+  const [flexibleWindowWeeks, setFlexibleWindowWeeks] = useState(1);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      destination: '',
-      days: 3,
-      budget: 'Medium',
-      travelers: 2,
-      interests: '',
-      pace: 'Balanced',
-      mustInclude: '',
-      avoid: '',
-      notes: '',
-    },
+    defaultValues: DEFAULT_FORM_VALUES,
   });
 
+  const watchedValues = form.watch();
+  // The number inputs hold strings until the form is validated.
+  const watchedStops = (watchedValues.stops ?? []).map((stop) => ({
+    destination: stop.destination ?? '',
+    days: Number(stop.days),
+  }));
+  const watchedDays =
+    watchedValues.startDate && watchedValues.endDate
+      ? tripLength(watchedValues.startDate, watchedValues.endDate)
+      : totalDays(watchedStops);
+
+  // The travel dates and the stops describe the same trip, so changing how
+  // many days are spent at the stops moves the end date to match.
+  useEffect(() => {
+    const subscription = form.watch((values, { name }) => {
+      if (!name?.startsWith('stops') || !values.startDate) return;
+      const days = (values.stops ?? []).reduce((sum, stop) => sum + (Number(stop?.days) || 0), 0);
+      if (days < 1) return;
+      const endDate = addDays(values.startDate, days - 1);
+      if (values.endDate?.getTime() !== endDate.getTime()) {
+        form.setValue('endDate', endDate);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  useEffect(() => {
+    currentUserAction().then(setUser);
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setAccountTrips([]);
+      return;
+    }
+    listTripsAction().then((result) => setAccountTrips('error' in result ? [] : result));
+  }, [user]);
+
   const generateItinerary = useCallback(async (data: FormValues) => {
     setLoading(true);
     setItinerary(null);
+    setFocusedDay(null);
     try {
       localStorage.setItem('last_itinerary_input', JSON.stringify(data));
-      const result = await generateItineraryAction({
+      const input: GeneratePersonalizedItineraryInput = {
         ...data,
+        days: tripLength(data.startDate, data.endDate),
         startDate: format(data.startDate, 'yyyy-MM-dd'),
+        endDate: format(data.endDate, 'yyyy-MM-dd'),
+        maxBudget: data.maxBudget || undefined,
+      };
+      const response = streamFlow<typeof generatePersonalizedItineraryFlow>({
+        url: '/api/itinerary',
+        input,
       });
-      if ('error' in result) {
-        toast({
-          variant: 'destructive',
-          title: 'Error Generating Itinerary',
-          description: result.error,
-        });
-      } else {
-        setItinerary(result);
+      for await (const chunk of response.stream) {
+        setPreview({ ...chunk, input });
+      }
+      const output = await response.output;
+      setItinerary(output);
+      setItineraryInput(input);
+      const trip = createSavedTrip(input, output);
+      saveTrip(trip);
+      setTripId(trip.id);
+      if (user) {
+        const saved = await saveTripAction(input, output);
+        if ('error' in saved) {
+          toast({ variant: 'destructive', title: 'Error Saving Trip', description: saved.error });
+        } else {
+          saveTrip({ ...trip, remoteId: saved.tripId });
+        }
       }
-    } catch (error) {
+    } catch (e: any) {
+      console.error(e);
       toast({
         variant: 'destructive',
-        title: 'An unexpected error occurred',
-        description: 'Please try again later.',
+        title: 'Error Generating Itinerary',
+        description: `Failed to generate itinerary: ${e?.message || 'An unknown error occurred.'}`,
       });
     } finally {
       setLoading(false);
+      setPreview(null);
     }
-  }, [toast]);
+  }, [toast, saveTrip, user]);
 
+  const openTrip = useCallback(
+    (trip: SavedTrip) => {
+      form.reset({ ...DEFAULT_FORM_VALUES, ...formValuesFromInput(trip.input) });
+      setItinerary(trip.itinerary);
+      setItineraryInput(trip.input);
+      setTripId(trip.id);
+      setFocusedDay(null);
+      setSharedView(false);
+    },
+    [form]
+  );
+
+  // Opening the page never calls the model: it shows a shared trip, fills the
+  // form from an old plan link, or reopens the trip changed most recently.
   useEffect(() => {
+    const shareId = searchParams.get('share');
+    if (shareId) {
+      setSharedView(true);
+      getSharedTripAction(shareId).then((result) => {
+        if ('error' in result) {
+          setSharedView(false);
+          toast({ variant: 'destructive', title: 'Error Opening Trip', description: result.error });
+          return;
+        }
+        form.reset({ ...DEFAULT_FORM_VALUES, ...formValuesFromInput(result.input) });
+        setItinerary(result.itinerary);
+        setItineraryInput(result.input);
+        setTripId(null);
+      });
+      return;
+    }
+
+    // Links made before shares carried the itinerary hold only the form.
     const planParam = searchParams.get('plan');
-    let dataToLoad = null;
+    let dataToLoad: Record<string, any> | null = null;
 
     if (planParam) {
       try {
@@ -105,6 +242,11 @@ function ItineraryPlanner() {
         console.error('Failed to parse plan from URL', e);
       }
     } else {
+      const [latestTrip] = readTripLibrary(localStorage);
+      if (latestTrip) {
+        openTrip(latestTrip);
+        return;
+      }
       const savedData = localStorage.getItem('last_itinerary_input');
       if (savedData) {
         try {
@@ -116,42 +258,140 @@ function ItineraryPlanner() {
     }
     
     if (dataToLoad) {
-      if (dataToLoad.startDate) {
-        dataToLoad.startDate = new Date(dataToLoad.startDate);
-      }
-      form.reset(dataToLoad);
-      if (dataToLoad.destination) {
-          generateItinerary(dataToLoad);
-      }
+      form.reset({ ...DEFAULT_FORM_VALUES, ...restoreFormValues(dataToLoad) });
     }
-  }, [searchParams, form, generateItinerary]);
+  }, [searchParams, form, openTrip, toast]);
 
+  const activeTrip = library.trips.find((trip) => trip.id === tripId);
 
-  function handleShare() {
-    const values = form.getValues();
-    const jsonString = JSON.stringify(values);
-    const base64String = btoa(jsonString);
-    const url = `${window.location.origin}${window.location.pathname}?plan=${base64String}`;
-    navigator.clipboard.writeText(url);
+  /** Copies a link to a snapshot of the itinerary on show, so the recipient sees exactly this plan. */
+  async function handleShare() {
+    if (!itinerary || !itineraryInput) return;
+    const result = await shareTripAction(activeTrip?.name ?? tripTitle(itineraryInput.stops), itineraryInput, itinerary);
+    if ('error' in result) {
+      toast({ variant: 'destructive', title: 'Error Sharing Trip', description: result.error });
+      return;
+    }
+    const url = `${window.location.origin}${window.location.pathname}?share=${result.shareId}`;
+    await navigator.clipboard.writeText(url);
     toast({
       title: 'Link Copied!',
-      description: 'You can now share your trip plan with others.',
+      description: 'Anyone with the link can view this itinerary.',
     });
   }
 
-  function handleClear() {
-    form.reset({
-      destination: '',
-      days: 3,
-      budget: 'Medium',
-      travelers: 2,
-      interests: '',
-      pace: 'Balanced',
-      mustInclude: '',
-      avoid: '',
-      notes: '',
+  /** Adds a version to the copy of the open trip in the user's account, if it has one. */
+  async function saveVersionToAccount(itinerary: GeneratePersonalizedItineraryOutput) {
+    if (!activeTrip?.remoteId || !user) return;
+    const result = await addTripVersionAction(activeTrip.remoteId, itinerary);
+    if ('error' in result) {
+      toast({ variant: 'destructive', title: 'Error Saving Trip', description: result.error });
+    }
+  }
+
+  /** Shows an edited itinerary and saves it as a new version of the open trip. */
+  function changeItinerary(next: GeneratePersonalizedItineraryOutput) {
+    setItinerary(next);
+    if (!tripId) return;
+    library.updateItinerary(tripId, next);
+    saveVersionToAccount(next);
+  }
+
+  function handleRestoreVersion(number: number) {
+    const version = activeTrip?.versions.find((v) => v.number === number);
+    if (!tripId || !version) return;
+    setItinerary(version.itinerary);
+    setFocusedDay(null);
+    library.restoreVersion(tripId, number);
+    saveVersionToAccount(version.itinerary);
+  }
+
+  async function handleOpenAccountTrip(remoteId: string) {
+    const result = await getTripAction(remoteId);
+    if ('error' in result) {
+      toast({ variant: 'destructive', title: 'Error Opening Trip', description: result.error });
+      return;
+    }
+    const versions = result.versions
+      .map(({ number, createdAt, itinerary }) => ({ number, createdAt, itinerary }))
+      .slice(-MAX_TRIP_VERSIONS);
+    const trip: SavedTrip = {
+      ...createSavedTrip(result.trip.input, versions[versions.length - 1].itinerary),
+      name: result.trip.name,
+      createdAt: result.trip.createdAt,
+      updatedAt: result.trip.updatedAt,
+      versions,
+      remoteId,
+    };
+    library.save(trip);
+    openTrip(trip);
+  }
+
+  function handleDeleteTrip(id: string) {
+    library.remove(id);
+    if (id === tripId) setTripId(null);
+  }
+
+  async function handleRegenerateDay(day: number, slot: ItinerarySlot | undefined, instruction: string) {
+    if (!itinerary || !itineraryInput) return;
+    const result = await regenerateItinerarySlotAction({
+      request: itineraryInput,
+      itinerary,
+      day,
+      slot,
+      instruction: instruction || undefined,
+    });
+    if ('error' in result) {
+      toast({
+        variant: 'destructive',
+        title: 'Error Regenerating Itinerary',
+        description: result.error,
+      });
+    } else {
+      changeItinerary(result);
+    }
+  }
+
+  async function handleReorderDay(day: number) {
+    if (!itinerary || !itineraryInput) return;
+    const result = await reorderItineraryDayAction(itineraryInput, itinerary, day);
+    if ('error' in result) {
+      toast({ variant: 'destructive', title: 'Error Reordering Day', description: result.error });
+    } else {
+      changeItinerary(result);
+    }
+  }
+
+  /** Picking travel dates resizes the stops to fill them; a single click picks a one-day trip. */
+  function handleTravelDatesSelect(range: DateRange | undefined) {
+    if (!range?.from) return;
+    const endDate = range.to ?? range.from;
+    form.setValue('startDate', range.from, { shouldValidate: true });
+    form.setValue('endDate', endDate, { shouldValidate: true });
+    form.setValue('stops', fitStopsToDays(form.getValues('stops'), tripLength(range.from, endDate)), {
+      shouldValidate: true,
     });
+  }
+
+  /** Moves the trip to a new start date, keeping its length. */
+  function handleStartDateMove(date: Date) {
+    form.setValue('startDate', date, { shouldValidate: true });
+    form.setValue('endDate', addDays(date, watchedDays - 1), { shouldValidate: true });
+  }
+
+  function handleFlexibleDateSelect(date: Date) {
+    handleStartDateMove(date);
+    setDatePickerOpen(false);
+    form.handleSubmit(generateItinerary)();
+  }
+
+  function handleClear() {
+    form.reset(DEFAULT_FORM_VALUES);
     setItinerary(null);
+    setItineraryInput(null);
+    setTripId(null);
+    setFocusedDay(null);
+    setSharedView(false);
     localStorage.removeItem('last_itinerary_input');
   }
 
@@ -164,327 +404,488 @@ function ItineraryPlanner() {
   };
 
   return (
-    <div className="min-h-screen bg-background text-foreground">
-      <header className="sticky top-0 z-10 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 print:hidden animate-fade-in-down">
-        <div className="container mx-auto flex h-16 max-w-7xl items-center justify-between px-4 sm:px-6 lg:px-8">
-          <div className="flex items-center gap-2">
-            <AirplaneIcon className="h-6 w-6 text-primary" />
-            <h1 className="font-headline text-2xl font-bold tracking-tight text-primary">TripGenius</h1>
+    <SidebarProvider defaultOpen={false}>
+      <TripLibrarySidebar
+        trips={library.trips}
+        activeTripId={tripId}
+        onOpen={openTrip}
+        onRename={library.rename}
+        onDuplicate={library.duplicate}
+        onDelete={handleDeleteTrip}
+        accountTrips={accountTrips.filter((remote) => !library.trips.some((trip) => trip.remoteId === remote.id))}
+        onOpenAccountTrip={handleOpenAccountTrip}
+      />
+      <div className="min-h-screen min-w-0 flex-1 bg-background text-foreground">
+        <header className="sticky top-0 z-10 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 print:hidden animate-fade-in-down">
+          <div className="container mx-auto flex h-16 max-w-7xl items-center justify-between px-4 sm:px-6 lg:px-8">
+            <div className="flex items-center gap-2">
+              <SidebarTrigger />
+              <AirplaneIcon className="h-6 w-6 text-primary" />
+              <h1 className="font-headline text-2xl font-bold tracking-tight text-primary">TripGenius</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              {!sharedView && (
+                <Button variant="ghost" size="sm" onClick={handleShare} disabled={!itinerary || loading}>
+                  <Share2 />
+                  Share
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => window.print()}>
+                <Download />
+                Download PDF
+              </Button>
+              <UserMenu user={user} onUserChange={setUser} />
+            </div>
           </div>
-          <div className="flex items-center gap-2">
-            <Button variant="ghost" size="sm" onClick={handleShare}>
-              <Share2 />
-              Share
-            </Button>
-            <Button variant="ghost" size="sm" onClick={() => window.print()}>
-              <Download />
-              Download PDF
-            </Button>
-          </div>
-        </div>
-      </header>
-
-      <main className="container mx-auto max-w-7xl p-4 sm:p-6 lg:p-8">
-        <div className="grid grid-cols-1 gap-12 lg:grid-cols-2">
-          <div className="print:hidden animate-fade-in-up" style={{ animationDelay: '0.2s' }}>
-            <Card>
-              <CardHeader>
-                <CardTitle className="font-headline text-3xl flex items-center gap-2"><Sparkles className="text-primary"/>Plan Your Next Adventure</CardTitle>
-                <CardDescription>Fill in your preferences and let our AI create the perfect itinerary for you.</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(generateItinerary)} className="space-y-6">
-                    <FormField
-                      control={form.control}
-                      name="destination"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Destination</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Goa, India" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+        </header>
+
+        <main className="container mx-auto max-w-7xl p-4 sm:p-6 lg:p-8">
+          <div className={cn('grid grid-cols-1 gap-12', sharedView ? 'mx-auto max-w-3xl' : 'lg:grid-cols-2')}>
+            <div className="print:hidden animate-fade-in-up" style={{ animationDelay: '0.2s' }} hidden={sharedView}>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-headline text-3xl flex items-center gap-2"><Sparkles className="text-primary"/>Plan Your Next Adventure</CardTitle>
+                  <CardDescription>Fill in your preferences and let our AI create the perfect itinerary for you.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(generateItinerary)} className="space-y-6">
+                      <TripStopsField control={form.control} />
 
-                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                       <FormField
-                        control={form.control}
-                        name="startDate"
-                        render={({ field }) => (
-                          <FormItem className="flex flex-col">
-                            <FormLabel>Start Date</FormLabel>
-                            <Popover>
-                              <PopoverTrigger asChild>
-                                <FormControl>
-                                  <Button
-                                    variant="outline"
-                                    className={cn(
-                                      'w-full justify-start text-left font-normal',
-                                      !field.value && 'text-muted-foreground'
-                                    )}
-                                  >
-                                    <CalendarIcon className="mr-2 h-4 w-4" />
-                                    {field.value ? format(field.value, 'PPP') : <span>Pick a date</span>}
-                                  </Button>
-                                </FormControl>
-                              </PopoverTrigger>
-                              <PopoverContent className="w-auto p-0" align="start">
-                                <Calendar
-                                  mode="single"
-                                  selected={field.value}
-                                  onSelect={field.onChange}
-                                  initialFocus
-                                />
-                              </PopoverContent>
-                            </Popover>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                       <FormField
                           control={form.control}
-                          name="days"
+                          name="startDate"
                           render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Number of Days</FormLabel>
-                              <FormControl>
-                                <Input type="number" min="1" max="21" {...field} />
-                              </FormControl>
+                            <FormItem className="flex flex-col">
+                              <FormLabel>Travel Dates</FormLabel>
+                              <Popover open={datePickerOpen} onOpenChange={setDatePickerOpen}>
+                                <PopoverTrigger asChild>
+                                  <FormControl>
+                                    <Button
+                                      variant="outline"
+                                      className={cn(
+                                        'w-full justify-start text-left font-normal',
+                                        !field.value && 'text-muted-foreground'
+                                      )}
+                                    >
+                                      <CalendarIcon className="mr-2 h-4 w-4" />
+                                      {field.value && watchedValues.endDate ? (
+                                        `${format(field.value, 'PPP')} – ${format(watchedValues.endDate, 'PPP')}`
+                                      ) : (
+                                        <span>Pick your dates</span>
+                                      )}
+                                    </Button>
+                                  </FormControl>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-auto p-0" align="start">
+                                  {flexibleDates ? (
+                                    <FlexibleDateCalendar
+                                      stops={watchedStops}
+                                      days={watchedDays}
+                                      travelers={Number(watchedValues.travelers)}
+                                      budget={watchedValues.budget}
+                                      pace={watchedValues.pace}
+                                      currency={watchedValues.currency}
+                                      anchor={field.value}
+                                      windowDays={flexibleWindowWeeks * 7}
+                                      selected={field.value}
+                                      onSelect={handleFlexibleDateSelect}
+                                    />
+                                  ) : (
+                                    <Calendar
+                                      mode="range"
+                                      numberOfMonths={2}
+                                      max={MAX_TRIP_DAYS}
+                                      defaultMonth={field.value}
+                                      selected={{ from: field.value, to: watchedValues.endDate }}
+                                      onSelect={handleTravelDatesSelect}
+                                      initialFocus
+                                    />
+                                  )}
+                                </PopoverContent>
+                              </Popover>
                               <FormMessage />
+                              {!form.formState.errors.startDate && form.formState.errors.endDate && (
+                                <p className="text-sm font-medium text-destructive">
+                                  {form.formState.errors.endDate.message}
+                                </p>
+                              )}
                             </FormItem>
                           )}
                         />
-                    </div>
+
+                      <CheapestStartDate
+                        stops={watchedStops}
+                        days={watchedDays}
+                        travelers={Number(watchedValues.travelers)}
+                        budget={watchedValues.budget}
+                        pace={watchedValues.pace}
+                        currency={watchedValues.currency}
+                        selected={watchedValues.startDate}
+                        onSelect={handleStartDateMove}
+                      />
+
+                      <div className="flex flex-wrap items-center gap-3">
+                        <Switch id="flexible-dates" checked={flexibleDates} onCheckedChange={setFlexibleDates} />
+                        <Label htmlFor="flexible-dates">Flexible dates</Label>
+                        {flexibleDates && (
+                          <Select value={String(flexibleWindowWeeks)} onValueChange={(value) => setFlexibleWindowWeeks(Number(value))}>
+                            <SelectTrigger className="h-8 w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="1">± 1 week</SelectItem>
+                              <SelectItem value="2">± 2 weeks</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                    
+                      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <FormField
+                            control={form.control}
+                            name="budget"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Budget</FormLabel>
+                                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="Select budget" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value="Low">Low</SelectItem>
+                                    <SelectItem value="Medium">Medium</SelectItem>
+                                    <SelectItem value="Luxury">Luxury</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                           <FormField
+                            control={form.control}
+                            name="travelers"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Number of Travelers</FormLabel>
+                                <FormControl>
+                                  <Input type="number" min="1" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                      </div>
                     
-                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                       <FormField
+                        control={form.control}
+                        name="interests"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Interests</FormLabel>
+                            <FormControl>
+                              <div>
+                                <Input className="hidden" {...field} />
+                                <div className="flex flex-wrap gap-2">
+                                  {INTERESTS.map((interest) => (
+                                    <Badge
+                                      key={interest}
+                                      variant={field.value.includes(interest) ? 'default' : 'secondary'}
+                                      className="cursor-pointer transition-transform hover:scale-105"
+                                      onClick={() => toggleInterest(interest)}
+                                    >
+                                      {interest}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              </div>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    
+                      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                       <FormField
                           control={form.control}
-                          name="budget"
+                          name="pace"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Budget</FormLabel>
+                              <FormLabel>Pace</FormLabel>
                               <Select onValueChange={field.onChange} defaultValue={field.value}>
                                 <FormControl>
                                   <SelectTrigger>
-                                    <SelectValue placeholder="Select budget" />
+                                    <SelectValue placeholder="Select pace" />
                                   </SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                  <SelectItem value="Low">Low</SelectItem>
-                                  <SelectItem value="Medium">Medium</SelectItem>
-                                  <SelectItem value="Luxury">Luxury</SelectItem>
+                                  <SelectItem value="Relaxed">Relaxed</SelectItem>
+                                  <SelectItem value="Balanced">Balanced</SelectItem>
+                                  <SelectItem value="Intense">Intense</SelectItem>
                                 </SelectContent>
                               </Select>
                               <FormMessage />
                             </FormItem>
                           )}
                         />
-                         <FormField
+                        <FormField
                           control={form.control}
-                          name="travelers"
+                          name="currency"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Number of Travelers</FormLabel>
-                              <FormControl>
-                                <Input type="number" min="1" {...field} />
-                              </FormControl>
+                              <FormLabel>Home Currency</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select currency" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {SUPPORTED_CURRENCIES.map((currency) => (
+                                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
                               <FormMessage />
                             </FormItem>
                           )}
                         />
-                    </div>
-                    
-                    <FormField
-                      control={form.control}
-                      name="interests"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Interests</FormLabel>
-                          <FormControl>
-                            <div>
-                              <Input className="hidden" {...field} />
-                              <div className="flex flex-wrap gap-2">
-                                {INTERESTS.map((interest) => (
-                                  <Badge
-                                    key={interest}
-                                    variant={field.value.includes(interest) ? 'default' : 'secondary'}
-                                    className="cursor-pointer transition-transform hover:scale-105"
-                                    onClick={() => toggleInterest(interest)}
-                                  >
-                                    {interest}
-                                  </Badge>
-                                ))}
-                              </div>
-                            </div>
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                     <FormField
+                      </div>
+
+                      <FormField
                         control={form.control}
-                        name="pace"
+                        name="maxBudget"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Pace</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select pace" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                <SelectItem value="Relaxed">Relaxed</SelectItem>
-                                <SelectItem value="Balanced">Balanced</SelectItem>
-                                <SelectItem value="Intense">Intense</SelectItem>
-                              </SelectContent>
-                            </Select>
+                            <FormLabel>Maximum Budget for the Group (optional)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="0" placeholder={`e.g., 2000 ${watchedValues.currency}`} {...field} value={field.value ?? ''} />
+                            </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
 
-                    <FormField
-                      control={form.control}
-                      name="mustInclude"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Must Include (optional)</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Eiffel Tower, Louvre Museum" {...field} />
-                          </FormControl>
-                        </FormItem>
-                      )}
-                    />
-                     <FormField
-                      control={form.control}
-                      name="avoid"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Avoid (optional)</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Crowded places" {...field} />
-                          </FormControl>
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="notes"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Additional Notes (optional)</FormLabel>
-                          <FormControl>
-                            <Textarea placeholder="Any other preferences or constraints..." {...field} />
-                          </FormControl>
-                        </FormItem>
-                      )}
-                    />
+                      <FormField
+                        control={form.control}
+                        name="mustInclude"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Must Include (optional)</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., Eiffel Tower, Louvre Museum" {...field} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                       <FormField
+                        control={form.control}
+                        name="avoid"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Avoid (optional)</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., Crowded places" {...field} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
 
-                    <div className="flex items-center gap-4 pt-4">
-                       <Button type="submit" disabled={loading} size="lg" className="w-full">
-                        {loading ? <Loader2 className="animate-spin" /> : <Wand2 />}
-                        {loading ? 'Generating...' : 'Generate Itinerary'}
-                      </Button>
-                      <Button type="button" variant="outline" onClick={handleClear} className="w-full" size="lg">
-                        <RotateCcw />
-                        Clear
-                      </Button>
-                    </div>
-                  </form>
-                </Form>
-              </CardContent>
-            </Card>
-          </div>
+                      <FormField
+                        control={form.control}
+                        name="notes"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Additional Notes (optional)</FormLabel>
+                            <FormControl>
+                              <Textarea placeholder="Any other preferences or constraints..." {...field} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
 
-          <div className="space-y-8 animate-fade-in-up" style={{ animationDelay: '0.4s' }}>
-            {loading && (
-               <Card className="h-full">
-                <CardContent className="flex flex-col items-center justify-center p-12 space-y-4 text-center h-full">
-                  <Loader2 className="h-12 w-12 animate-spin text-primary" />
-                  <p className="font-headline text-xl">Generating your dream trip...</p>
-                  <p className="text-muted-foreground">The AI is crafting your personalized itinerary. This might take a moment.</p>
+                      <div className="flex items-center gap-4 pt-4">
+                         <Button type="submit" disabled={loading} size="lg" className="w-full">
+                          {loading ? <Loader2 className="animate-spin" /> : <Wand2 />}
+                          {loading ? 'Generating...' : 'Generate Itinerary'}
+                        </Button>
+                        <Button type="button" variant="outline" onClick={handleClear} className="w-full" size="lg">
+                          <RotateCcw />
+                          Clear
+                        </Button>
+                      </div>
+                    </form>
+                  </Form>
                 </CardContent>
               </Card>
-            )}
-
-            {!loading && !itinerary && (
-              <Card className="flex flex-col items-center justify-center text-center p-8 lg:min-h-[400px]">
-                <Image src="https://picsum.photos/800/600" data-ai-hint="travel planning" alt="Travel illustration" width={300} height={225} className="rounded-lg mb-6 shadow-lg" />
-                <h2 className="font-headline text-2xl font-bold">Your Itinerary Awaits</h2>
-                <p className="text-muted-foreground mt-2 max-w-md">
-                  Ready for an adventure? Fill out the form to get started, and your personalized travel plan will appear here.
-                </p>
-              </Card>
-            )}
+            </div>
+
+            <div className="space-y-8 animate-fade-in-up" style={{ animationDelay: '0.4s' }}>
+              {sharedView && (
+                <Alert className="print:hidden">
+                  <Eye className="h-4 w-4" />
+                  <AlertTitle>Shared trip</AlertTitle>
+                  <AlertDescription className="space-y-3">
+                    <p>This is a read-only copy of an itinerary someone shared with you.</p>
+                    <Button variant="outline" size="sm" onClick={() => setSharedView(false)}>
+                      Plan your own trip
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {sharedView && !itinerary && (
+                <Card>
+                  <CardContent className="flex items-center justify-center p-12">
+                    <Loader2 className="h-12 w-12 animate-spin text-primary" />
+                  </CardContent>
+                </Card>
+              )}
 
-            {itinerary && (
-              <>
-                <Card className="transition-transform hover:scale-[1.02]">
+              {loading && preview?.summary && (
+                <Card>
                   <CardHeader>
-                    <CardTitle className="font-headline text-4xl">{form.getValues('destination')}</CardTitle>
-                    <CardDescription className="pt-2">{itinerary.summary}</CardDescription>
+                    <CardTitle className="font-headline text-4xl">{tripTitle(preview.input.stops)}</CardTitle>
+                    <CardDescription className="pt-2">{preview.summary}</CardDescription>
                   </CardHeader>
-                   <CardContent className="space-y-4">
-                      <div>
-                        <h3 className="font-headline text-lg font-semibold mb-2">Estimated Budget</h3>
-                        <p className="text-muted-foreground">{itinerary.estimatedBudget}</p>
-                      </div>
-                      <div>
-                        <h3 className="font-headline text-lg font-semibold mb-2">Helpful Tips</h3>
-                        <p className="text-muted-foreground">{itinerary.tips}</p>
-                      </div>
-                   </CardContent>
                 </Card>
+              )}
+
+              {loading && preview?.itinerary.map((day, index) => (
+                <ItineraryDayCard key={day.day} day={day} index={index} currency={preview.input.currency} />
+              ))}
+
+              {loading && (
+                 <Card className={preview ? undefined : 'h-full'}>
+                  <CardContent className="flex flex-col items-center justify-center p-12 space-y-4 text-center h-full">
+                    <Loader2 className="h-12 w-12 animate-spin text-primary" />
+                    <p className="font-headline text-xl">
+                      {preview ? `${preview.itinerary.length} of ${preview.input.days} days ready...` : 'Generating your dream trip...'}
+                    </p>
+                    <p className="text-muted-foreground">The AI is crafting your personalized itinerary. This might take a moment.</p>
+                  </CardContent>
+                </Card>
+              )}
 
-                {itinerary.itinerary.map((day, index) => (
-                  <Card key={day.day} className="transition-transform hover:scale-[1.02] animate-fade-in-up" style={{ animationDelay: `${0.2 * (index + 1)}s` }}>
+              {!loading && !itinerary && !sharedView && (
+                <Card className="flex flex-col items-center justify-center text-center p-8 lg:min-h-[400px]">
+                  <Image src="https://picsum.photos/800/600" data-ai-hint="travel planning" alt="Travel illustration" width={300} height={225} className="rounded-lg mb-6 shadow-lg" />
+                  <h2 className="font-headline text-2xl font-bold">Your Itinerary Awaits</h2>
+                  <p className="text-muted-foreground mt-2 max-w-md">
+                    Ready for an adventure? Fill out the form to get started, and your personalized travel plan will appear here.
+                  </p>
+                </Card>
+              )}
+
+              {itinerary && itineraryInput && (
+                <>
+                  <Card className="transition-transform hover:scale-[1.02]">
                     <CardHeader>
-                      <CardTitle className="font-headline text-2xl">Day {day.day}</CardTitle>
-                      <CardDescription>{new Date(day.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })}</CardDescription>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div className="flex items-start gap-4">
-                        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center">
-                          <Coffee className="w-5 h-5" />
-                        </div>
-                        <div>
-                          <p className="font-semibold">Morning</p>
-                          <p className="text-muted-foreground">{day.morning}</p>
+                      <div className="flex items-start justify-between gap-2">
+                        <CardTitle className="font-headline text-4xl">{tripTitle(itineraryInput.stops)}</CardTitle>
+                        <div className="flex flex-wrap justify-end gap-2">
+                          {activeTrip && !sharedView && (
+                            <TripVersionHistory versions={activeTrip.versions} onRestore={handleRestoreVersion} />
+                          )}
+                          {!sharedView && (
+                            <ItineraryChatSheet request={itineraryInput} itinerary={itinerary} onItineraryChange={changeItinerary} />
+                          )}
                         </div>
                       </div>
-                      <div className="flex items-start gap-4">
-                        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center">
-                          <Sunset className="w-5 h-5" />
-                        </div>
+                      <CardDescription className="pt-2">{itinerary.summary}</CardDescription>
+                    </CardHeader>
+                     <CardContent className="space-y-4">
                         <div>
-                          <p className="font-semibold">Afternoon</p>
-                          <p className="text-muted-foreground">{day.afternoon}</p>
-                        </div>
-                      </div>
-                      <div className="flex items-start gap-4">
-                        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center">
-                          <Moon className="w-5 h-5" />
+                          <h3 className="font-headline text-lg font-semibold mb-2">Estimated Budget</h3>
+                          <CostBreakdownTable
+                            items={itinerary.costBreakdown}
+                            travelers={itineraryInput.travelers}
+                            destinationCurrency={localCurrency(itineraryInput.stops)}
+                          />
+                          <p className="mt-2 text-sm text-muted-foreground">
+                            Our price model predicts {formatMoney(itinerary.priceCheck.predictedLow, itinerary.priceCheck.currency)} – {formatMoney(itinerary.priceCheck.predictedHigh, itinerary.priceCheck.currency)} for this trip (rates v{itinerary.priceCheck.rateTableVersion}).
+                          </p>
+                          {itinerary.priceCheck.flagged && (
+                            <Alert className="mt-4">
+                              <AlertTriangle className="h-4 w-4" />
+                              <AlertTitle>Check these prices</AlertTitle>
+                              <AlertDescription>
+                                {itinerary.priceCheck.message}
+                                {itinerary.priceCheck.flaggedCategories.length > 0 &&
+                                  ` Biggest differences: ${itinerary.priceCheck.flaggedCategories.map((c) => COST_CATEGORY_LABELS[c]).join(', ')}.`}
+                              </AlertDescription>
+                            </Alert>
+                          )}
                         </div>
+                        <ValidationReport validation={itinerary.validation} />
+                        {itinerary.budgetCap && (
+                          <BudgetCapReport budgetCap={itinerary.budgetCap} substitutions={itinerary.substitutions} currency={costCurrency(itinerary.costBreakdown)} />
+                        )}
                         <div>
-                          <p className="font-semibold">Evening</p>
-                          <p className="text-muted-foreground">{day.evening}</p>
+                          <h3 className="font-headline text-lg font-semibold mb-2">Helpful Tips</h3>
+                          <p className="text-muted-foreground">{itinerary.tips}</p>
                         </div>
-                      </div>
-                    </CardContent>
+                     </CardContent>
                   </Card>
-                ))}
-              </>
-            )}
+
+                  {itinerary.itinerary.some((day) => day.places?.length) && (
+                    <Card className="print:hidden">
+                      <CardHeader>
+                        <CardTitle className="font-headline text-2xl flex items-center gap-2"><MapIcon className="text-primary" />Map</CardTitle>
+                        <CardDescription>
+                          {focusedDay === null ? 'Click a day card to focus on its stops.' : `Showing day ${focusedDay}. Click the day card again to see the whole trip.`}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ItineraryMap itinerary={itinerary.itinerary} focusedDay={focusedDay} onFocusDay={setFocusedDay} />
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {itinerary.itinerary.map((day, index) => (
+                    <Fragment key={day.day}>
+                      {itinerary.transportLegs
+                        .filter((leg) => leg.date === day.date)
+                        .map((leg) => (
+                          <TransportLegCard key={`${leg.from}-${leg.to}`} leg={leg} currency={costCurrency(itinerary.costBreakdown)} />
+                        ))}
+                      <ItineraryDayCard
+                        day={day}
+                        index={index}
+                        currency={costCurrency(itinerary.costBreakdown)}
+                        prediction={itinerary.priceCheck.days.find((p) => p.date === day.date)}
+                        feasibility={itinerary.feasibility.find((f) => f.day === day.day)}
+                        onReorder={sharedView ? undefined : () => handleReorderDay(day.day)}
+                        issues={itinerary.validation.issues.filter((issue) => issue.day === day.day)}
+                        selected={focusedDay === day.day}
+                        onSelect={() => setFocusedDay(focusedDay === day.day ? null : day.day)}
+                        actions={
+                          !sharedView && (
+                            <RegenerateDayControl day={day.day} onRegenerate={(slot, instruction) => handleRegenerateDay(day.day, slot, instruction)} />
+                          )
+                        }
+                      />
+                    </Fragment>
+                  ))}
+
+                  {!sharedView && (
+                    <ExpenseLedger
+                      key={tripId ?? undefined}
+                      itinerary={itinerary}
+                      travelers={itineraryInput.travelers}
+                      ledger={activeTrip?.ledger}
+                      onLedgerChange={tripId ? (ledger) => library.updateLedger(tripId, ledger) : undefined}
+                    />
+                  )}
+                </>
+              )}
+            </div>
           </div>
-        </div>
-      </main>
-    </div>
+        </main>
+      </div>
+    </SidebarProvider>
   );
 }
 
@@ -0,0 +1,43 @@
+import { ArrowRight, CircleCheck, CircleX } from 'lucide-react';
+
+import type { GeneratePersonalizedItineraryOutput } from '@/ai/flows/generate-personalized-itinerary';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { COST_CATEGORY_LABELS, formatMoney } from '@/lib/costs';
+
+type BudgetCapReportProps = {
+  budgetCap: NonNullable<GeneratePersonalizedItineraryOutput['budgetCap']>;
+  substitutions: GeneratePersonalizedItineraryOutput['substitutions'];
+  currency: string;
+};
+
+export function BudgetCapReport({ budgetCap, substitutions, currency }: BudgetCapReportProps) {
+  return (
+    <div className="space-y-3">
+      <Alert variant={budgetCap.withinBudget ? 'default' : 'destructive'}>
+        {budgetCap.withinBudget ? <CircleCheck className="h-4 w-4" /> : <CircleX className="h-4 w-4" />}
+        <AlertTitle>
+          {budgetCap.withinBudget ? 'Within your budget' : 'Over your budget'}: {formatMoney(budgetCap.total, currency)} of{' '}
+          {formatMoney(budgetCap.maxBudget, currency)}
+        </AlertTitle>
+        {budgetCap.explanation && <AlertDescription>{budgetCap.explanation}</AlertDescription>}
+      </Alert>
+      {substitutions.length > 0 && (
+        <div>
+          <h3 className="font-headline text-lg font-semibold mb-2">Budget Substitutions</h3>
+          <ul className="space-y-2 text-sm">
+            {substitutions.map((substitution, index) => (
+              <li key={index} className="flex flex-wrap items-center gap-1 text-muted-foreground">
+                <span className="font-medium text-foreground">
+                  {substitution.day ? `Day ${substitution.day} · ` : ''}
+                  {COST_CATEGORY_LABELS[substitution.category]}:
+                </span>
+                {substitution.original} <ArrowRight className="h-3 w-3" /> {substitution.replacement}
+                <span className="ml-auto">saves {formatMoney(substitution.estimatedSaving, currency)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { format, parseISO } from 'date-fns';
+import { TrendingDown } from 'lucide-react';
+import { useMemo } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { formatMoney } from '@/lib/costs';
+import { isPriceableTrip, type PricePredictionInput } from '@/lib/pricing/predict';
+import { findCheapestStartDate } from '@/lib/pricing/scan';
+
+export const CHEAPEST_START_DATE_WEEKS = 8;
+
+type CheapestStartDateProps = Omit<PricePredictionInput, 'startDate'> & {
+  selected?: Date;
+  onSelect: (date: Date) => void;
+};
+
+export function CheapestStartDate({ selected, onSelect, ...input }: CheapestStartDateProps) {
+  const { stops, days, travelers, budget, pace, currency } = input;
+  // The form hands over a new stops array on every render, so memoise on its contents.
+  const stopsKey = JSON.stringify(stops);
+  const stableStops = useMemo((): PricePredictionInput['stops'] => JSON.parse(stopsKey), [stopsKey]);
+  const quote = useMemo(() => {
+    if (!isPriceableTrip(stableStops, days, travelers)) return undefined;
+    return findCheapestStartDate(
+      { stops: stableStops, days, travelers, budget, pace, currency },
+      format(new Date(), 'yyyy-MM-dd'),
+      CHEAPEST_START_DATE_WEEKS
+    );
+  }, [stableStops, days, travelers, budget, pace, currency]);
+
+  if (!quote) return null;
+
+  const isSelected = selected && format(selected, 'yyyy-MM-dd') === quote.startDate;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+      <TrendingDown className="h-4 w-4 text-primary" />
+      <span>
+        Cheapest start in the next {CHEAPEST_START_DATE_WEEKS} weeks:{' '}
+        <span className="font-medium text-foreground">{format(parseISO(quote.startDate), 'EEE, MMM d')}</span>{' '}
+        (~{formatMoney(quote.low, quote.currency)} – {formatMoney(quote.high, quote.currency)})
+      </span>
+      {!isSelected && (
+        <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => onSelect(parseISO(quote.startDate))}>
+          Use this date
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import type { CostLineItem } from '@/ai/flows/generate-personalized-itinerary';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { COST_CATEGORY_LABELS, formatMoney, summarizeCosts } from '@/lib/costs';
+import { DEFAULT_RATE_SNAPSHOT, convertCurrency, isSupportedCurrency } from '@/lib/currency';
+
+type CostBreakdownTableProps = {
+  items: CostLineItem[];
+  travelers: number;
+  /** When set, group totals are also shown converted into this currency. */
+  destinationCurrency?: string;
+};
+
+export function CostBreakdownTable({ items, travelers, destinationCurrency }: CostBreakdownTableProps) {
+  const { currency, rows, total } = summarizeCosts(items, travelers);
+  const localCurrency =
+    destinationCurrency &&
+    destinationCurrency !== currency &&
+    isSupportedCurrency(currency) &&
+    isSupportedCurrency(destinationCurrency)
+      ? destinationCurrency
+      : undefined;
+  const inLocalCurrency = (amount: number) =>
+    localCurrency ? formatMoney(convertCurrency(amount, currency, localCurrency), localCurrency) : null;
+
+  return (
+    <div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Category</TableHead>
+            <TableHead className="text-right">Per Person</TableHead>
+            <TableHead className="text-right">Group Total</TableHead>
+            {localCurrency && <TableHead className="text-right">In {localCurrency}</TableHead>}
+            <TableHead className="text-right">Range</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.category}>
+              <TableCell className="font-medium">{COST_CATEGORY_LABELS[row.category]}</TableCell>
+              <TableCell className="text-right">{formatMoney(row.perPerson.amount, currency)}</TableCell>
+              <TableCell className="text-right">{formatMoney(row.group.amount, currency)}</TableCell>
+              {localCurrency && (
+                <TableCell className="text-right text-muted-foreground">{inLocalCurrency(row.group.amount)}</TableCell>
+              )}
+              <TableCell className="text-right text-muted-foreground">
+                {formatMoney(row.group.low, currency)} – {formatMoney(row.group.high, currency)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell className="font-semibold">Total</TableCell>
+            <TableCell className="text-right">{formatMoney(total.amount / Math.max(1, travelers), currency)}</TableCell>
+            <TableCell className="text-right font-semibold">{formatMoney(total.amount, currency)}</TableCell>
+            {localCurrency && <TableCell className="text-right font-semibold">{inLocalCurrency(total.amount)}</TableCell>}
+            <TableCell className="text-right text-muted-foreground">
+              {formatMoney(total.low, currency)} – {formatMoney(total.high, currency)}
+            </TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+      {localCurrency && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          {localCurrency} amounts use offline exchange rates as of {DEFAULT_RATE_SNAPSHOT.asOf}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { AlertTriangle, Footprints, Shuffle, TramFront } from 'lucide-react';
+
+import type { GeneratePersonalizedItineraryOutput } from '@/ai/flows/generate-personalized-itinerary';
+import { Button } from '@/components/ui/button';
+
+type DayFeasibility = GeneratePersonalizedItineraryOutput['feasibility'][number];
+type TravelLeg = DayFeasibility['legs'][number];
+
+export function TravelLegRow({ leg }: { leg: TravelLeg }) {
+  const Icon = leg.mode === 'walk' ? Footprints : TramFront;
+  return (
+    <div className="flex items-center gap-4 text-xs text-muted-foreground">
+      <div className="flex w-8 flex-shrink-0 justify-center">
+        <div className="h-6 border-l border-dashed border-muted-foreground/50" />
+      </div>
+      <span className="flex items-center gap-1">
+        <Icon className="h-3 w-3" />
+        {leg.minutes} min {leg.mode === 'walk' ? 'walk' : 'by road'} · {leg.distanceKm} km
+      </span>
+    </div>
+  );
+}
+
+type DayFeasibilityNoticeProps = {
+  feasibility: DayFeasibility;
+  onReorder?: () => void;
+};
+
+/** Warns about a day with too much travel and offers the optimised route, if it is meaningfully faster. */
+export function DayFeasibilityNotice({ feasibility, onReorder }: DayFeasibilityNoticeProps) {
+  if (feasibility.feasible && !feasibility.suggestedOrder) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border border-dashed p-3 text-sm">
+      {!feasibility.feasible && (
+        <span className="flex items-center gap-2 text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          About {feasibility.totalMinutes} min of travel, more than the {feasibility.limitMinutes} min this pace allows.
+        </span>
+      )}
+      {feasibility.suggestedOrder && onReorder && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto print:hidden"
+          onClick={(event) => {
+            event.stopPropagation();
+            onReorder();
+          }}
+        >
+          <Shuffle />
+          Optimise route (saves {feasibility.savedMinutes} min)
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { ArrowRight, Plus, Trash2, Users } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+import type { GeneratePersonalizedItineraryOutput } from '@/ai/flows/generate-personalized-itinerary';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { COST_CATEGORY_LABELS, formatMoney, summarizeCosts } from '@/lib/costs';
+import { ITINERARY_SLOTS, ITINERARY_SLOT_LABELS } from '@/lib/itinerary';
+import { computeBalances, settleUp, withTravelerCount, type Ledger } from '@/lib/ledger';
+
+type ExpenseLedgerProps = {
+  itinerary: GeneratePersonalizedItineraryOutput;
+  travelers: number;
+  /** The ledger saved with the trip, if any; it is read when the component mounts. */
+  ledger?: Ledger;
+  onLedgerChange?: (ledger: Ledger) => void;
+};
+
+/**
+ * Splits the estimated trip cost per traveler and keeps a shared ledger of
+ * who paid for which itinerary item, with the transfers needed to settle up.
+ */
+export function ExpenseLedger({ itinerary, travelers, ledger: savedLedger, onLedgerChange }: ExpenseLedgerProps) {
+  const [ledger, setLedger] = useState(() =>
+    withTravelerCount(savedLedger ?? { travelers: [], entries: [] }, travelers)
+  );
+  const { travelers: people, entries } = ledger;
+  const [item, setItem] = useState('');
+  const [amount, setAmount] = useState('');
+  const [paidBy, setPaidBy] = useState(people[0].id);
+  const [splitAmong, setSplitAmong] = useState(() => people.map((person) => person.id));
+
+  useEffect(() => {
+    setLedger((previous) => withTravelerCount(previous, travelers));
+  }, [travelers]);
+
+  // Renaming keeps the IDs, so only a change in who is travelling resets the form.
+  const peopleIds = people.map((person) => person.id).join(',');
+  useEffect(() => {
+    const ids = peopleIds.split(',');
+    setPaidBy((previous) => (ids.includes(previous) ? previous : ids[0]));
+    setSplitAmong(ids);
+  }, [peopleIds]);
+
+  const { currency, total } = summarizeCosts(itinerary.costBreakdown, travelers);
+  const balances = computeBalances(people, entries);
+  const transfers = settleUp(balances);
+  const itemOptions = [
+    ...itinerary.itinerary.flatMap((day) =>
+      ITINERARY_SLOTS.map((slot) => `Day ${day.day} · ${ITINERARY_SLOT_LABELS[slot]}`)
+    ),
+    ...itinerary.costBreakdown.map((line) => COST_CATEGORY_LABELS[line.category]),
+  ];
+
+  function changeLedger(next: Ledger) {
+    setLedger(next);
+    onLedgerChange?.(next);
+  }
+
+  function renameTraveler(id: string, name: string) {
+    changeLedger({ ...ledger, travelers: people.map((person) => (person.id === id ? { ...person, name } : person)) });
+  }
+
+  function travelerName(id: string): string {
+    return people.find((person) => person.id === id)?.name ?? '';
+  }
+
+  function addEntry() {
+    const value = Number(amount);
+    if (!item || !(value > 0) || !paidBy || splitAmong.length === 0) return;
+    changeLedger({
+      ...ledger,
+      entries: [...entries, { id: crypto.randomUUID(), description: item, amount: value, paidBy, splitAmong }],
+    });
+    setAmount('');
+  }
+
+  function toggleSharer(id: string) {
+    setSplitAmong(splitAmong.includes(id) ? splitAmong.filter((t) => t !== id) : [...splitAmong, id]);
+  }
+
+  return (
+    <Card className="print:break-inside-avoid">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl flex items-center gap-2"><Users className="text-primary" />Split Costs</CardTitle>
+        <CardDescription>
+          {formatMoney(total.amount, currency)} for the group, or {formatMoney(total.amount / people.length, currency)} per traveler.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {people.map((person, index) => (
+            <Input key={person.id} aria-label={`Traveler ${index + 1} name`} value={person.name} onChange={(e) => renameTraveler(person.id, e.target.value)} />
+          ))}
+        </div>
+
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+            <Select value={item} onValueChange={setItem}>
+              <SelectTrigger>
+                <SelectValue placeholder="Itinerary item" />
+              </SelectTrigger>
+              <SelectContent>
+                {itemOptions.map((option) => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input type="number" min="0" step="0.01" placeholder={`Amount (${currency})`} value={amount} onChange={(e) => setAmount(e.target.value)} />
+            <Select value={paidBy} onValueChange={setPaidBy}>
+              <SelectTrigger>
+                <SelectValue placeholder="Paid by" />
+              </SelectTrigger>
+              <SelectContent>
+                {people.map((person) => (
+                  <SelectItem key={person.id} value={person.id}>Paid by {person.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span className="text-muted-foreground">Split between</span>
+            {people.map((person) => (
+              <div key={person.id} className="flex items-center gap-2">
+                <Checkbox id={`split-${person.id}`} checked={splitAmong.includes(person.id)} onCheckedChange={() => toggleSharer(person.id)} />
+                <Label htmlFor={`split-${person.id}`}>{person.name}</Label>
+              </div>
+            ))}
+          </div>
+          <Button type="button" size="sm" onClick={addEntry}>
+            <Plus />
+            Add expense
+          </Button>
+        </div>
+
+        {entries.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Paid by</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>{entry.description}</TableCell>
+                  <TableCell>{travelerName(entry.paidBy)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(entry.amount, currency)}</TableCell>
+                  <TableCell>
+                    <Button type="button" variant="ghost" size="icon" aria-label="Remove expense" onClick={() => changeLedger({ ...ledger, entries: entries.filter((e) => e.id !== entry.id) })}>
+                      <Trash2 />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Traveler</TableHead>
+              <TableHead className="text-right">Estimated Share</TableHead>
+              <TableHead className="text-right">Paid</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {balances.map((balance) => (
+              <TableRow key={balance.traveler.id}>
+                <TableCell className="font-medium">{balance.traveler.name}</TableCell>
+                <TableCell className="text-right">{formatMoney(total.amount / people.length, currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(balance.paid, currency)}</TableCell>
+                <TableCell className={balance.net < 0 ? 'text-right text-destructive' : 'text-right'}>
+                  {formatMoney(balance.net, currency)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div>
+          <h3 className="font-headline text-lg font-semibold mb-2">Settle Up</h3>
+          {transfers.length === 0 ? (
+            <p className="text-muted-foreground">Everyone is square.</p>
+          ) : (
+            <ul className="space-y-1">
+              {transfers.map((transfer) => (
+                <li key={`${transfer.from.id}-${transfer.to.id}`} className="flex items-center gap-2">
+                  {transfer.from.name} <ArrowRight className="h-4 w-4 text-muted-foreground" /> {transfer.to.name}
+                  <span className="ml-auto font-medium">{formatMoney(transfer.amount, currency)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { addDays, format, isBefore, parseISO, startOfDay } from 'date-fns';
+import { useMemo } from 'react';
+
+import { Calendar } from '@/components/ui/calendar';
+import { formatMoney } from '@/lib/costs';
+import { isPriceableTrip, type PricePredictionInput } from '@/lib/pricing/predict';
+import { priceBands, scanStartDates, type PriceBand } from '@/lib/pricing/scan';
+import { cn } from '@/lib/utils';
+
+const BAND_CLASS_NAMES: Record<PriceBand, string> = {
+  low: 'bg-emerald-500/25 text-emerald-100 hover:bg-emerald-500/40',
+  mid: 'bg-amber-500/25 text-amber-100 hover:bg-amber-500/40',
+  high: 'bg-rose-500/25 text-rose-100 hover:bg-rose-500/40',
+};
+
+const BAND_LABELS: Record<PriceBand, string> = {
+  low: 'Cheapest',
+  mid: 'Average',
+  high: 'Priciest',
+};
+
+type FlexibleDateCalendarProps = Omit<PricePredictionInput, 'startDate'> & {
+  /** The date the window is centred on; defaults to today. */
+  anchor?: Date;
+  /** How many days either side of the anchor are candidates. */
+  windowDays: number;
+  selected?: Date;
+  onSelect: (date: Date) => void;
+};
+
+/**
+ * A calendar that colours every candidate start date in the window by its
+ * predicted trip cost.
+ */
+export function FlexibleDateCalendar({ anchor, windowDays, selected, onSelect, ...input }: FlexibleDateCalendarProps) {
+  const { stops, days, travelers, budget, pace, currency } = input;
+  // The form hands over a new stops array on every render, so memoise on its contents.
+  const stopsKey = JSON.stringify(stops);
+  const stableStops = useMemo((): PricePredictionInput['stops'] => JSON.parse(stopsKey), [stopsKey]);
+  const today = startOfDay(new Date());
+  const centre = anchor ?? today;
+  const first = isBefore(addDays(centre, -windowDays), today) ? today : addDays(centre, -windowDays);
+  const last = addDays(centre, windowDays);
+  const firstKey = format(first, 'yyyy-MM-dd');
+  const count = Math.round((last.getTime() - first.getTime()) / 86_400_000) + 1;
+
+  const { quotes, bands } = useMemo(() => {
+    const quotes = isPriceableTrip(stableStops, days, travelers)
+      ? scanStartDates({ stops: stableStops, days, travelers, budget, pace, currency }, firstKey, Math.max(0, count))
+      : [];
+    return { quotes, bands: priceBands(quotes) };
+  }, [stableStops, days, travelers, budget, pace, currency, firstKey, count]);
+
+  const modifiers = Object.fromEntries(
+    (['low', 'mid', 'high'] as const).map((band) => [
+      band,
+      quotes.filter((q) => bands.get(q.startDate) === band).map((q) => parseISO(q.startDate)),
+    ])
+  );
+
+  const legend = (['low', 'mid', 'high'] as const).map((band) => {
+    const inBand = quotes.filter((q) => bands.get(q.startDate) === band);
+    if (!inBand.length) return null;
+    const low = Math.min(...inBand.map((q) => q.low));
+    const high = Math.max(...inBand.map((q) => q.high));
+    return (
+      <div key={band} className="flex items-center gap-2">
+        <span className={cn('h-3 w-3 rounded-sm', BAND_CLASS_NAMES[band])} />
+        <span>
+          {BAND_LABELS[band]}: {formatMoney(low, inBand[0].currency)} – {formatMoney(high, inBand[0].currency)}
+        </span>
+      </div>
+    );
+  });
+
+  return (
+    <div>
+      <Calendar
+        mode="single"
+        selected={selected}
+        defaultMonth={first}
+        onSelect={(date) => date && onSelect(date)}
+        disabled={[{ before: first }, { after: last }]}
+        modifiers={modifiers}
+        modifiersClassNames={BAND_CLASS_NAMES}
+        initialFocus
+      />
+      <div className="space-y-1 border-t px-3 py-2 text-xs text-muted-foreground">{legend}</div>
+    </div>
+  );
+}
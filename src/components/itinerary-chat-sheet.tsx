@@ -0,0 +1,111 @@
+import { Loader2, MessageSquare, Send } from 'lucide-react';
+import { useState } from 'react';
+
+import type {
+  GeneratePersonalizedItineraryInput,
+  GeneratePersonalizedItineraryOutput,
+} from '@/ai/flows/generate-personalized-itinerary';
+import { refineItineraryAction } from '@/app/actions';
+import { ItineraryDiffList } from '@/components/itinerary-diff-list';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { useToast } from '@/hooks/use-toast';
+import type { DayDiff } from '@/lib/itinerary-diff';
+import { cn } from '@/lib/utils';
+
+type ChatMessage = {
+  role: 'user' | 'assistant';
+  content: string;
+  diff?: DayDiff[];
+};
+
+type ItineraryChatSheetProps = {
+  request: GeneratePersonalizedItineraryInput;
+  itinerary: GeneratePersonalizedItineraryOutput;
+  onItineraryChange: (itinerary: GeneratePersonalizedItineraryOutput) => void;
+};
+
+export function ItineraryChatSheet({ request, itinerary, onItineraryChange }: ItineraryChatSheetProps) {
+  const { toast } = useToast();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  async function handleSend(event: React.FormEvent) {
+    event.preventDefault();
+    const message = draft.trim();
+    if (!message || loading) return;
+
+    setLoading(true);
+    setDraft('');
+    setMessages((previous) => [...previous, { role: 'user', content: message }]);
+    try {
+      const result = await refineItineraryAction({
+        request,
+        itinerary,
+        history: messages.map(({ role, content }) => ({ role, content })),
+        message,
+      });
+      if ('error' in result) {
+        toast({
+          variant: 'destructive',
+          title: 'Error Refining Itinerary',
+          description: result.error,
+        });
+        setMessages((previous) => previous.slice(0, -1));
+        setDraft(message);
+      } else {
+        setMessages((previous) => [...previous, { role: 'assistant', content: result.reply, diff: result.diff }]);
+        onItineraryChange(result.itinerary);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="print:hidden">
+          <MessageSquare />
+          Refine with chat
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle className="font-headline">Refine Your Itinerary</SheetTitle>
+          <SheetDescription>Ask for changes like &ldquo;make day 2 more kid friendly&rdquo; or &ldquo;swap the museum for a beach&rdquo;.</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 pr-4">
+          <div className="space-y-4">
+            {messages.map((message, index) => (
+              <div
+                key={index}
+                className={cn(
+                  'rounded-lg p-3 text-sm',
+                  message.role === 'user' ? 'ml-8 bg-primary text-primary-foreground' : 'mr-8 bg-muted'
+                )}
+              >
+                <p>{message.content}</p>
+                {message.diff && (
+                  <div className="mt-3 border-t border-border/50 pt-3">
+                    <ItineraryDiffList diff={message.diff} />
+                  </div>
+                )}
+              </div>
+            ))}
+            {loading && <Loader2 className="mx-auto animate-spin text-primary" />}
+          </div>
+        </ScrollArea>
+        <form onSubmit={handleSend} className="flex gap-2">
+          <Input placeholder="Describe a change..." value={draft} onChange={(e) => setDraft(e.target.value)} disabled={loading} />
+          <Button type="submit" size="icon" disabled={loading || !draft.trim()} aria-label="Send">
+            <Send />
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
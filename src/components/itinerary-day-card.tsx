@@ -0,0 +1,102 @@
+import { AlertTriangle, Coffee, MapPin, Moon, Sunset } from 'lucide-react';
+import { Fragment, type ReactNode } from 'react';
+
+import type { GeneratePersonalizedItineraryOutput } from '@/ai/flows/generate-personalized-itinerary';
+import type { ItineraryItem, ValidationReport } from '@/ai/schemas';
+import { DayFeasibilityNotice, TravelLegRow } from '@/components/day-feasibility';
+import { PredictedDayCost } from '@/components/predicted-day-cost';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatMoney } from '@/lib/costs';
+import { ITINERARY_SLOTS, ITINERARY_SLOT_LABELS, type ItinerarySlot } from '@/lib/itinerary';
+import { cn } from '@/lib/utils';
+
+const SLOT_ICONS: Record<ItinerarySlot, typeof Coffee> = {
+  morning: Coffee,
+  afternoon: Sunset,
+  evening: Moon,
+};
+
+type ItineraryDayCardProps = {
+  day: ItineraryItem;
+  index: number;
+  currency: string;
+  prediction?: GeneratePersonalizedItineraryOutput['priceCheck']['days'][number];
+  feasibility?: GeneratePersonalizedItineraryOutput['feasibility'][number];
+  onReorder?: () => void;
+  /** Validation issues found on this day; those tied to a slot are shown under it. */
+  issues?: ValidationReport['issues'];
+  /** Controls shown next to the day title, such as regenerate. */
+  actions?: ReactNode;
+  /** Whether the day is focused on the map. */
+  selected?: boolean;
+  onSelect?: () => void;
+};
+
+export function ItineraryDayCard({
+  day,
+  index,
+  currency,
+  prediction,
+  feasibility,
+  onReorder,
+  issues = [],
+  actions,
+  selected,
+  onSelect,
+}: ItineraryDayCardProps) {
+  return (
+    <Card
+      className={cn('transition-transform hover:scale-[1.02] animate-fade-in-up', onSelect && 'cursor-pointer', selected && 'ring-2 ring-primary')}
+      style={{ animationDelay: `${0.2 * (index + 1)}s` }}
+      onClick={onSelect}
+    >
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="font-headline text-2xl">Day {day.day}</CardTitle>
+          {/* Keep clicks on the controls (and their portalled popovers) from selecting the day. */}
+          <div onClick={(event) => event.stopPropagation()}>{actions}</div>
+        </div>
+        <CardDescription className="flex items-center justify-between gap-2">
+          <span>{new Date(day.date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })}</span>
+          <span className="font-medium text-foreground">{formatMoney(day.subtotal, currency)}</span>
+        </CardDescription>
+        <PredictedDayCost prediction={prediction} currency={currency} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {ITINERARY_SLOTS.map((slot) => {
+          const Icon = SLOT_ICONS[slot];
+          const places = (day.places ?? []).filter((place) => place.slot === slot);
+          const leg = feasibility?.legs.find((l) => l.from === slot);
+          const warnings = issues.filter((issue) => issue.slot === slot);
+          return (
+            <Fragment key={slot}>
+              <div className="flex items-start gap-4">
+                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center">
+                  <Icon className="w-5 h-5" />
+                </div>
+                <div>
+                  <p className="font-semibold">{ITINERARY_SLOT_LABELS[slot]}</p>
+                  <p className="text-muted-foreground">{day[slot]}</p>
+                  {places.map((place) => (
+                    <p key={place.name} className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                      <MapPin className="h-3 w-3" />
+                      {place.name}
+                    </p>
+                  ))}
+                  {warnings.map((issue) => (
+                    <p key={issue.message} className="mt-1 flex items-center gap-1 text-xs text-destructive">
+                      <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                      {issue.message}
+                    </p>
+                  ))}
+                </div>
+              </div>
+              {leg && <TravelLegRow leg={leg} />}
+            </Fragment>
+          );
+        })}
+        {feasibility && <DayFeasibilityNotice feasibility={feasibility} onReorder={onReorder} />}
+      </CardContent>
+    </Card>
+  );
+}
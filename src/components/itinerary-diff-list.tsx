@@ -0,0 +1,41 @@
+import { Badge } from '@/components/ui/badge';
+import { ITINERARY_SLOT_LABELS } from '@/lib/itinerary';
+import type { DayDiff, DayFieldChange } from '@/lib/itinerary-diff';
+
+const FIELD_LABELS: Record<DayFieldChange['field'], string> = {
+  ...ITINERARY_SLOT_LABELS,
+  date: 'Date',
+  subtotal: 'Subtotal',
+};
+
+type ItineraryDiffListProps = {
+  diff: DayDiff[];
+};
+
+export function ItineraryDiffList({ diff }: ItineraryDiffListProps) {
+  if (diff.length === 0) {
+    return <p className="text-sm text-muted-foreground">No days changed.</p>;
+  }
+
+  return (
+    <ul className="space-y-3 text-sm">
+      {diff.map((day) => (
+        <li key={day.day} className="space-y-1">
+          <div className="flex items-center gap-2 font-semibold">
+            Day {day.day}
+            {day.status !== 'changed' && <Badge variant="secondary">{day.status}</Badge>}
+          </div>
+          {day.changes.map((change) => (
+            <div key={change.field} className="grid grid-cols-[5rem_1fr] gap-2">
+              <span className="text-muted-foreground">{FIELD_LABELS[change.field]}</span>
+              <div>
+                {change.before && <p className="text-destructive line-through">{change.before}</p>}
+                {change.after && <p className="text-emerald-400">{change.after}</p>}
+              </div>
+            </div>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import 'leaflet/dist/leaflet.css';
+
+import { latLngBounds } from 'leaflet';
+import { Fragment, useEffect, useMemo } from 'react';
+import { CircleMarker, MapContainer, Polyline, TileLayer, Tooltip, useMap } from 'react-leaflet';
+
+import type { ItineraryItem } from '@/ai/schemas';
+import { ITINERARY_SLOT_LABELS } from '@/lib/itinerary';
+import { TILE_SOURCE, dayColor, dayStops, type MapStop } from '@/lib/itinerary-map';
+
+type ItineraryMapProps = {
+  itinerary: ItineraryItem[];
+  /** The day whose stops the map zooms to; all stops are shown if null. */
+  focusedDay: number | null;
+  onFocusDay: (day: number) => void;
+};
+
+function FitToStops({ stops }: { stops: MapStop[] }) {
+  const map = useMap();
+  useEffect(() => {
+    if (stops.length === 0) return;
+    map.fitBounds(latLngBounds(stops.map((stop) => [stop.lat, stop.lng])), { padding: [32, 32], maxZoom: 15 });
+  }, [map, stops]);
+  return null;
+}
+
+export function ItineraryMap({ itinerary, focusedDay, onFocusDay }: ItineraryMapProps) {
+  const routes = useMemo(() => itinerary.map((day) => ({ day: day.day, stops: dayStops(day) })), [itinerary]);
+  const allStops = useMemo(() => routes.flatMap((route) => route.stops), [routes]);
+  const focusedStops = useMemo(
+    () => routes.find((route) => route.day === focusedDay)?.stops ?? [],
+    [routes, focusedDay]
+  );
+
+  if (allStops.length === 0) return null;
+
+  return (
+    <MapContainer
+      center={[allStops[0].lat, allStops[0].lng]}
+      zoom={12}
+      scrollWheelZoom={false}
+      className="h-80 w-full rounded-lg z-0"
+    >
+      <TileLayer url={TILE_SOURCE.url} attribution={TILE_SOURCE.attribution} maxZoom={TILE_SOURCE.maxZoom} />
+      {routes.map(({ day, stops }) => {
+        const faded = focusedDay !== null && focusedDay !== day;
+        const color = dayColor(day);
+        return (
+          <Fragment key={day}>
+            <Polyline
+              positions={stops.map((stop) => [stop.lat, stop.lng])}
+              pathOptions={{ color, weight: 3, opacity: faded ? 0.2 : 0.8 }}
+              eventHandlers={{ click: () => onFocusDay(day) }}
+            />
+            {stops.map((stop, index) => (
+              <CircleMarker
+                key={`${stop.slot}-${index}`}
+                center={[stop.lat, stop.lng]}
+                radius={8}
+                pathOptions={{ color, fillColor: color, fillOpacity: faded ? 0.2 : 0.9, opacity: faded ? 0.2 : 1 }}
+                eventHandlers={{ click: () => onFocusDay(day) }}
+              >
+                <Tooltip>
+                  Day {day} · {index + 1}. {ITINERARY_SLOT_LABELS[stop.slot]}: {stop.name}
+                </Tooltip>
+              </CircleMarker>
+            ))}
+          </Fragment>
+        );
+      })}
+      <FitToStops stops={focusedStops.length > 0 ? focusedStops : allStops} />
+    </MapContainer>
+  );
+}
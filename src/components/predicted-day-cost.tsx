@@ -0,0 +1,25 @@
+import type { GeneratePersonalizedItineraryOutput } from '@/ai/flows/generate-personalized-itinerary';
+import { Badge } from '@/components/ui/badge';
+import { formatMoney } from '@/lib/costs';
+
+type PredictedDay = GeneratePersonalizedItineraryOutput['priceCheck']['days'][number];
+
+type PredictedDayCostProps = {
+  prediction?: PredictedDay;
+  currency: string;
+};
+
+export function PredictedDayCost({ prediction, currency }: PredictedDayCostProps) {
+  if (!prediction) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 pt-1 text-xs text-muted-foreground">
+      <span>
+        Predicted {formatMoney(prediction.low, currency)} – {formatMoney(prediction.high, currency)}
+      </span>
+      {prediction.season === 'peak' && <Badge variant="secondary">Peak season</Badge>}
+      {prediction.holiday && <Badge variant="secondary">{prediction.holiday}</Badge>}
+      {prediction.weekend && <Badge variant="secondary">Weekend rates</Badge>}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ITINERARY_SLOTS, ITINERARY_SLOT_LABELS, type ItinerarySlot } from '@/lib/itinerary';
+
+const WHOLE_DAY = 'day';
+
+type RegenerateDayControlProps = {
+  day: number;
+  onRegenerate: (slot: ItinerarySlot | undefined, instruction: string) => Promise<void>;
+};
+
+export function RegenerateDayControl({ day, onRegenerate }: RegenerateDayControlProps) {
+  const [open, setOpen] = useState(false);
+  const [slot, setSlot] = useState<string>(WHOLE_DAY);
+  const [instruction, setInstruction] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  async function handleRegenerate() {
+    setLoading(true);
+    try {
+      await onRegenerate(slot === WHOLE_DAY ? undefined : (slot as ItinerarySlot), instruction.trim());
+      setOpen(false);
+      setInstruction('');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="print:hidden" aria-label={`Regenerate day ${day}`} disabled={loading}>
+          {loading ? <Loader2 className="animate-spin" /> : <RefreshCw />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label>Regenerate</Label>
+          <Select value={slot} onValueChange={setSlot}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={WHOLE_DAY}>Whole day</SelectItem>
+              {ITINERARY_SLOTS.map((s) => (
+                <SelectItem key={s} value={s}>{ITINERARY_SLOT_LABELS[s]} only</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`regenerate-instruction-${day}`}>Instructions (optional)</Label>
+          <Input
+            id={`regenerate-instruction-${day}`}
+            placeholder="e.g., Something outdoors"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+          />
+        </div>
+        <Button type="button" className="w-full" onClick={handleRegenerate} disabled={loading}>
+          {loading ? <Loader2 className="animate-spin" /> : <RefreshCw />}
+          {loading ? 'Regenerating...' : 'Regenerate'}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,56 @@
+import { Bus, Car, Plane, Ship, TrainFront } from 'lucide-react';
+
+import type { TransportLeg } from '@/ai/schemas';
+import { Card, CardContent } from '@/components/ui/card';
+import { formatMoney } from '@/lib/costs';
+
+const MODE_ICONS: Record<TransportLeg['mode'], typeof Plane> = {
+  flight: Plane,
+  train: TrainFront,
+  bus: Bus,
+  car: Car,
+  ferry: Ship,
+};
+
+const MODE_LABELS: Record<TransportLeg['mode'], string> = {
+  flight: 'Fly',
+  train: 'Train',
+  bus: 'Bus',
+  car: 'Drive',
+  ferry: 'Ferry',
+};
+
+function formatDuration(hours: number): string {
+  const whole = Math.floor(hours);
+  const minutes = Math.round((hours - whole) * 60);
+  if (whole === 0) return `${minutes} min`;
+  return minutes ? `${whole} h ${minutes} min` : `${whole} h`;
+}
+
+type TransportLegCardProps = {
+  leg: TransportLeg;
+  currency: string;
+};
+
+/** The journey from one stop to the next, shown before the first day at the new stop. */
+export function TransportLegCard({ leg, currency }: TransportLegCardProps) {
+  const Icon = MODE_ICONS[leg.mode];
+  return (
+    <Card className="border-dashed bg-muted/30">
+      <CardContent className="flex items-start gap-4 p-4">
+        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center">
+          <Icon className="w-5 h-5" />
+        </div>
+        <div className="flex-1">
+          <p className="font-semibold">
+            {MODE_LABELS[leg.mode]} from {leg.from} to {leg.to}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {formatDuration(leg.durationHours)} · {formatMoney(leg.cost, currency)} for the group
+          </p>
+          {leg.notes && <p className="mt-1 text-sm text-muted-foreground">{leg.notes}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+import { format, parseISO } from 'date-fns';
+import { Cloud, Copy, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from '@/components/ui/sidebar';
+import type { SavedTrip } from '@/lib/trip-library';
+import type { TripRecord } from '@/lib/trips/repository';
+
+type TripLibrarySidebarProps = {
+  trips: SavedTrip[];
+  activeTripId: string | null;
+  onOpen: (trip: SavedTrip) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  /** Trips in the signed-in user's account that are not saved in this browser yet. */
+  accountTrips: TripRecord[];
+  onOpenAccountTrip: (id: string) => void;
+};
+
+/**
+ * The saved trips, newest first, with a menu per trip to rename, duplicate or
+ * delete it, followed by any trips from the user's account not saved here.
+ */
+export function TripLibrarySidebar({
+  trips,
+  activeTripId,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  accountTrips,
+  onOpenAccountTrip,
+}: TripLibrarySidebarProps) {
+  const { setOpenMobile } = useSidebar();
+  const [renaming, setRenaming] = useState<SavedTrip | null>(null);
+  const [name, setName] = useState('');
+
+  function startRename(trip: SavedTrip) {
+    setRenaming(trip);
+    setName(trip.name);
+  }
+
+  function handleRename(event: React.FormEvent) {
+    event.preventDefault();
+    if (renaming && name.trim()) onRename(renaming.id, name);
+    setRenaming(null);
+  }
+
+  return (
+    <Sidebar className="print:hidden">
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Saved trips</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {trips.length === 0 ? (
+              <p className="px-2 text-sm text-muted-foreground">Every itinerary you generate is saved here.</p>
+            ) : (
+              <SidebarMenu>
+                {trips.map((trip) => (
+                  <SidebarMenuItem key={trip.id}>
+                    <SidebarMenuButton
+                      size="lg"
+                      isActive={trip.id === activeTripId}
+                      onClick={() => {
+                        onOpen(trip);
+                        setOpenMobile(false);
+                      }}
+                    >
+                      <div className="grid flex-1 text-left leading-tight">
+                        <span className="flex items-center gap-1 truncate font-medium">
+                          {trip.remoteId && <Cloud className="shrink-0" aria-label="Saved to your account" />}
+                          {trip.name}
+                        </span>
+                        <span className="truncate text-xs text-muted-foreground">
+                          {format(parseISO(trip.updatedAt), 'PP p')}
+                        </span>
+                      </div>
+                    </SidebarMenuButton>
+                    {/* Not modal, so the rename dialog can take focus as the menu closes. */}
+                    <DropdownMenu modal={false}>
+                      <DropdownMenuTrigger asChild>
+                        <SidebarMenuAction showOnHover aria-label={`Manage ${trip.name}`}>
+                          <MoreHorizontal />
+                        </SidebarMenuAction>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent side="right" align="start">
+                        <DropdownMenuItem onSelect={() => startRename(trip)}>
+                          <Pencil />
+                          Rename
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => onDuplicate(trip.id)}>
+                          <Copy />
+                          Duplicate
+                        </DropdownMenuItem>
+                        <DropdownMenuItem className="text-destructive" onSelect={() => onDelete(trip.id)}>
+                          <Trash2 />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+        {accountTrips.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>In your account</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {accountTrips.map((trip) => (
+                  <SidebarMenuItem key={trip.id}>
+                    <SidebarMenuButton
+                      size="lg"
+                      onClick={() => {
+                        onOpenAccountTrip(trip.id);
+                        setOpenMobile(false);
+                      }}
+                    >
+                      <div className="grid flex-1 text-left leading-tight">
+                        <span className="truncate font-medium">{trip.name}</span>
+                        <span className="truncate text-xs text-muted-foreground">
+                          {format(parseISO(trip.updatedAt), 'PP p')}
+                        </span>
+                      </div>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+      </SidebarContent>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <form onSubmit={handleRename} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Rename trip</DialogTitle>
+              <DialogDescription>Give this trip a name you will recognise in the list.</DialogDescription>
+            </DialogHeader>
+            <Input aria-label="Trip name" value={name} onChange={(event) => setName(event.target.value)} />
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,107 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { useFieldArray, useFormState, useWatch, type Control } from 'react-hook-form';
+
+import { DEFAULT_STOP, type FormValues } from '@/app/form-schema';
+import { Button } from '@/components/ui/button';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { MAX_STOPS, MAX_TRIP_DAYS, totalDays } from '@/lib/trip-stops';
+
+type TripStopsFieldProps = {
+  control: Control<FormValues>;
+};
+
+/** Edits the ordered stops of a trip, each with its own destination and day count. */
+export function TripStopsField({ control }: TripStopsFieldProps) {
+  const { fields, append, remove, move } = useFieldArray({ control, name: 'stops' });
+  const stops = useWatch({ control, name: 'stops' }) ?? [];
+  const { errors } = useFormState({ control, name: 'stops' });
+  // Errors about the list as a whole, such as its total length, land on its root.
+  const listError = errors.stops?.root?.message ?? errors.stops?.message;
+  const days = totalDays(stops.map((stop) => ({ ...stop, days: Number(stop.days) || 0 })));
+
+  return (
+    <div className="space-y-3">
+      {fields.map((item, index) => (
+        <div key={item.id} className="flex items-start gap-2">
+          <FormField
+            control={control}
+            name={`stops.${index}.destination`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormLabel className={index > 0 ? 'sr-only' : undefined}>Destinations</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder={index === 0 ? 'e.g., Goa, India' : 'Next stop'}
+                    aria-label={`Stop ${index + 1} destination`}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`stops.${index}.days`}
+            render={({ field }) => (
+              <FormItem className="w-24">
+                <FormLabel className={index > 0 ? 'sr-only' : undefined}>Days</FormLabel>
+                <FormControl>
+                  <Input type="number" min="1" max={MAX_TRIP_DAYS} aria-label={`Stop ${index + 1} days`} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className={index === 0 ? 'flex pt-8' : 'flex'}>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Move stop ${index + 1} up`}
+              disabled={index === 0}
+              onClick={() => move(index, index - 1)}
+            >
+              <ArrowUp />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Move stop ${index + 1} down`}
+              disabled={index === fields.length - 1}
+              onClick={() => move(index, index + 1)}
+            >
+              <ArrowDown />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove stop ${index + 1}`}
+              disabled={fields.length === 1}
+              onClick={() => remove(index)}
+            >
+              <Trash2 />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={fields.length >= MAX_STOPS}
+          onClick={() => append(DEFAULT_STOP)}
+        >
+          <Plus />
+          Add stop
+        </Button>
+        <span className="text-sm text-muted-foreground">{days} days in total</span>
+      </div>
+      {listError && <p className="text-sm font-medium text-destructive">{listError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { format, parseISO } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { useState } from 'react';
+
+import { ItineraryDiffList } from '@/components/itinerary-diff-list';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { diffItineraries } from '@/lib/itinerary-diff';
+import type { TripVersion } from '@/lib/trip-library';
+
+function versionLabel(version: TripVersion): string {
+  if (version.restoredFrom) return `Restored from version ${version.restoredFrom}`;
+  return version.number === 1 ? 'Generated' : 'Edited';
+}
+
+type TripVersionHistoryProps = {
+  /** Oldest first; the last one is on show. */
+  versions: TripVersion[];
+  onRestore: (number: number) => void;
+};
+
+/** Lists the versions of a trip, shows what changed between any two of them and restores an older one. */
+export function TripVersionHistory({ versions, onRestore }: TripVersionHistoryProps) {
+  // Until the user picks, the newest version is compared with the one before it.
+  const [picked, setPicked] = useState<number[] | null>(null);
+  const compared = (picked ?? versions.slice(-2).map((version) => version.number))
+    .map((number) => versions.find((version) => version.number === number))
+    .filter((version): version is TripVersion => version !== undefined)
+    .sort((a, b) => a.number - b.number);
+  const current = versions[versions.length - 1];
+
+  function handleCompareChange(number: number, checked: boolean) {
+    const numbers = compared.map((version) => version.number);
+    // Picking a third version lets go of the one picked first.
+    setPicked(checked ? [...(picked ?? numbers), number].slice(-2) : numbers.filter((n) => n !== number));
+  }
+
+  function handleRestore(number: number) {
+    setPicked(null);
+    onRestore(number);
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="print:hidden">
+          <History />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle className="font-headline">Version History</SheetTitle>
+          <SheetDescription>
+            Every regenerated or edited itinerary is kept as a version. Tick two versions to compare them.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 pr-4">
+          <ul className="space-y-2">
+            {[...versions].reverse().map((version) => (
+              <li key={version.number} className="flex items-center gap-3 rounded-lg border p-3 text-sm">
+                <Checkbox
+                  aria-label={`Compare version ${version.number}`}
+                  checked={compared.includes(version)}
+                  disabled={versions.length < 2}
+                  onCheckedChange={(checked) => handleCompareChange(version.number, checked === true)}
+                />
+                <div className="flex-1">
+                  <p className="flex items-center gap-2 font-semibold">
+                    Version {version.number}
+                    {version === current && <Badge variant="secondary">Current</Badge>}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {versionLabel(version)} · {format(parseISO(version.createdAt), 'PP p')}
+                  </p>
+                </div>
+                {version !== current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    aria-label={`Restore version ${version.number}`}
+                    onClick={() => handleRestore(version.number)}
+                  >
+                    <RotateCcw />
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="mt-6 border-t pt-4">
+            {compared.length === 2 ? (
+              <>
+                <h3 className="mb-3 font-semibold">
+                  Changes from version {compared[0].number} to version {compared[1].number}
+                </h3>
+                <ItineraryDiffList diff={diffItineraries(compared[0].itinerary.itinerary, compared[1].itinerary.itinerary)} />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {versions.length < 2
+                  ? 'Regenerating or editing the itinerary saves a new version here.'
+                  : 'Tick two versions to compare them.'}
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
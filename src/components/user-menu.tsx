@@ -0,0 +1,157 @@
+import { Loader2, LogIn, LogOut, UserRound } from 'lucide-react';
+import { useState } from 'react';
+
+import { signInAction, signOutAction } from '@/app/actions';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { authProvider, type SignInCredentials } from '@/lib/auth/providers';
+import type { SessionUser } from '@/lib/auth/session';
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+}
+
+type UserMenuProps = {
+  user: SessionUser | null;
+  onUserChange: (user: SessionUser | null) => void;
+};
+
+/**
+ * The account avatar in the header. Signing in with the local provider asks
+ * for a name and email address; with Firebase it opens Google sign-in.
+ */
+export function UserMenu({ user, onUserChange }: UserMenuProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [pending, setPending] = useState(false);
+
+  async function signIn(credentials: SignInCredentials) {
+    setPending(true);
+    try {
+      const result = await signInAction(credentials);
+      if ('error' in result) {
+        toast({ variant: 'destructive', title: 'Error Signing In', description: result.error });
+        return;
+      }
+      onUserChange(result);
+      setDialogOpen(false);
+    } finally {
+      setPending(false);
+    }
+  }
+
+  async function handleSignIn() {
+    if (authProvider() === 'local') {
+      setDialogOpen(true);
+      return;
+    }
+    try {
+      const { firebaseSignIn } = await import('@/lib/auth/firebase-client');
+      await signIn({ provider: 'firebase', idToken: await firebaseSignIn() });
+    } catch (e: any) {
+      console.error(e);
+      toast({ variant: 'destructive', title: 'Error Signing In', description: e?.message || 'Sign-in was cancelled.' });
+    }
+  }
+
+  async function handleSignOut() {
+    await signOutAction();
+    if (authProvider() === 'firebase') {
+      const { firebaseSignOut } = await import('@/lib/auth/firebase-client');
+      await firebaseSignOut();
+    }
+    onUserChange(null);
+  }
+
+  function handleLocalSignIn(event: React.FormEvent) {
+    event.preventDefault();
+    signIn({ provider: 'local', name, email });
+  }
+
+  return (
+    <>
+      {/* Not modal, so the sign-in dialog can take focus as the menu closes. */}
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="rounded-full" aria-label="Account menu">
+            <Avatar className="h-8 w-8">
+              {user?.photoURL && <AvatarImage src={user.photoURL} alt="" />}
+              <AvatarFallback>{user ? initials(user.name) : <UserRound className="h-4 w-4" />}</AvatarFallback>
+            </Avatar>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {user ? (
+            <>
+              <DropdownMenuLabel className="font-normal">
+                <p className="font-medium">{user.name}</p>
+                {user.email && <p className="text-xs text-muted-foreground">{user.email}</p>}
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={handleSignOut}>
+                <LogOut />
+                Sign out
+              </DropdownMenuItem>
+            </>
+          ) : (
+            <DropdownMenuItem onSelect={handleSignIn}>
+              <LogIn />
+              Sign in
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleLocalSignIn} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Sign in</DialogTitle>
+              <DialogDescription>Generated trips are saved to your account.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="sign-in-name">Name</Label>
+              <Input id="sign-in-name" value={name} onChange={(event) => setName(event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sign-in-email">Email</Label>
+              <Input id="sign-in-email" type="email" value={email} onChange={(event) => setEmail(event.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={pending}>
+                {pending && <Loader2 className="animate-spin" />}
+                Sign in
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+import { ListChecks, AlertTriangle } from 'lucide-react';
+
+import type { GeneratePersonalizedItineraryOutput } from '@/ai/flows/generate-personalized-itinerary';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+
+type ValidationReportProps = {
+  validation: GeneratePersonalizedItineraryOutput['validation'];
+};
+
+/** Explains what the validator fixed or could not fix; renders nothing for a clean first draft. */
+export function ValidationReport({ validation }: ValidationReportProps) {
+  if (validation.valid && validation.repaired.length === 0) return null;
+
+  return (
+    <Alert variant={validation.valid ? 'default' : 'destructive'}>
+      {validation.valid ? <ListChecks className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+      <AlertTitle>
+        {validation.valid
+          ? `Fixed ${validation.repaired.length} ${validation.repaired.length === 1 ? 'problem' : 'problems'} with the first draft`
+          : "This itinerary doesn't fully match your request"}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc space-y-1 pl-4">
+          {(validation.valid ? validation.repaired : validation.issues).map((issue, index) => (
+            <li key={index}>{issue.message}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import type { GeneratePersonalizedItineraryOutput } from '@/ai/schemas';
+import type { Ledger } from '@/lib/ledger';
+import {
+  deleteTrip,
+  duplicateTrip,
+  readTripLibrary,
+  renameTrip,
+  restoreTripVersion,
+  saveTrip,
+  updateTripItinerary,
+  updateTripLedger,
+  writeTripLibrary,
+  type SavedTrip,
+} from '@/lib/trip-library';
+
+/**
+ * The saved trips in localStorage. Every change is written back once it is
+ * rendered, and the callbacks keep their identity across renders so effects
+ * can depend on them.
+ */
+export function useTripLibrary() {
+  // Null until the library is read, so the empty start never overwrites it.
+  const [trips, setTrips] = useState<SavedTrip[] | null>(null);
+
+  useEffect(() => {
+    setTrips(readTripLibrary(localStorage));
+  }, []);
+
+  useEffect(() => {
+    if (!trips) return;
+    try {
+      const stored = writeTripLibrary(localStorage, trips);
+      // Versions dropped to fit the storage quota leave the history as well.
+      if (stored !== trips) setTrips(stored);
+    } catch (e) {
+      console.error(e);
+    }
+  }, [trips]);
+
+  const change = useCallback((update: (trips: SavedTrip[]) => SavedTrip[]) => {
+    setTrips((current) => update(current ?? []));
+  }, []);
+
+  return {
+    trips: trips ?? [],
+    save: useCallback((trip: SavedTrip) => change((t) => saveTrip(t, trip)), [change]),
+    updateItinerary: useCallback(
+      (id: string, itinerary: GeneratePersonalizedItineraryOutput) =>
+        change((t) => updateTripItinerary(t, id, itinerary)),
+      [change]
+    ),
+    restoreVersion: useCallback(
+      (id: string, number: number) => change((t) => restoreTripVersion(t, id, number)),
+      [change]
+    ),
+    updateLedger: useCallback(
+      (id: string, ledger: Ledger) => change((t) => updateTripLedger(t, id, ledger)),
+      [change]
+    ),
+    rename: useCallback((id: string, name: string) => change((t) => renameTrip(t, id, name)), [change]),
+    duplicate: useCallback((id: string) => change((t) => duplicateTrip(t, id)), [change]),
+    remove: useCallback((id: string) => change((t) => deleteTrip(t, id)), [change]),
+  };
+}
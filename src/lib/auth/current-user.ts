@@ -0,0 +1,30 @@
+import { cookies } from 'next/headers';
+
+import {
+  decodeSession,
+  encodeSession,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  sessionSecret,
+  type SessionUser,
+} from '@/lib/auth/session';
+
+/** The user signed in to the current request, if any. Server-only. */
+export async function currentUser(): Promise<SessionUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? decodeSession(token, sessionSecret()) : null;
+}
+
+export async function startSession(user: SessionUser): Promise<void> {
+  (await cookies()).set(SESSION_COOKIE, encodeSession(user, sessionSecret()), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+export async function endSession(): Promise<void> {
+  (await cookies()).delete(SESSION_COOKIE);
+}
@@ -0,0 +1,29 @@
+import { connectAuthEmulator, getAuth, GoogleAuthProvider, signInWithPopup, signOut, type Auth } from 'firebase/auth';
+
+import { emulatorAddress, firebaseApp } from '@/lib/firebase';
+
+let auth: Auth | undefined;
+
+function clientAuth(): Auth {
+  if (auth) return auth;
+  auth = getAuth(firebaseApp());
+  const emulator = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+  if (emulator) {
+    const { host, port } = emulatorAddress(emulator);
+    connectAuthEmulator(auth, `http://${host}:${port}`, { disableWarnings: true });
+  }
+  return auth;
+}
+
+/**
+ * Signs in with a Google account in a popup (the emulator offers made-up
+ * accounts instead) and returns the ID token for the server to verify.
+ */
+export async function firebaseSignIn(): Promise<string> {
+  const { user } = await signInWithPopup(clientAuth(), new GoogleAuthProvider());
+  return user.getIdToken();
+}
+
+export async function firebaseSignOut(): Promise<void> {
+  await signOut(clientAuth());
+}
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const AUTH_PROVIDERS = ['local', 'firebase'] as const;
+
+export type AuthProviderName = (typeof AUTH_PROVIDERS)[number];
+
+/**
+ * The sign-in provider, from NEXT_PUBLIC_AUTH_PROVIDER: "local" signs in with
+ * just a name and email address and is the default in development; "firebase"
+ * uses Firebase Auth, or its emulator when NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST
+ * is set, and is the default in production. It is public because the sign-in
+ * menu needs it too.
+ */
+export function authProvider(): AuthProviderName {
+  const production = process.env.NODE_ENV === 'production';
+  const provider = process.env.NEXT_PUBLIC_AUTH_PROVIDER || (production ? 'firebase' : 'local');
+  if (!(AUTH_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new Error(`Unknown NEXT_PUBLIC_AUTH_PROVIDER "${provider}". Use "local" or "firebase".`);
+  }
+  // Local sign-in believes any email address, so anyone could open anyone's trips.
+  if (provider === 'local' && production) {
+    throw new Error('Local sign-in cannot be used in production. Set NEXT_PUBLIC_AUTH_PROVIDER to "firebase".');
+  }
+  return provider as AuthProviderName;
+}
+
+export const SignInCredentialsSchema = z.discriminatedUnion('provider', [
+  z.object({
+    provider: z.literal('local'),
+    name: z.string().trim().min(1, 'Enter your name.'),
+    email: z.string().trim().toLowerCase().email('Enter a valid email address.'),
+  }),
+  z.object({
+    provider: z.literal('firebase'),
+    /** A Firebase ID token from the client SDK, for the server to verify. */
+    idToken: z.string().min(1),
+  }),
+]);
+
+export type SignInCredentials = z.input<typeof SignInCredentialsSchema>;
@@ -0,0 +1,32 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import { decodeSession, encodeSession, SESSION_MAX_AGE_SECONDS } from '@/lib/auth/session';
+
+const user = { uid: 'local:abc', name: 'Ada Lovelace', email: 'ada@example.com' };
+const now = new Date('2030-01-01T00:00:00Z');
+
+describe('session tokens', () => {
+  it('round-trips the user', () => {
+    expect(decodeSession(encodeSession(user, 'secret', now), 'secret', now)).toEqual(user);
+  });
+
+  it('rejects a token signed with another secret or edited after signing', () => {
+    const token = encodeSession(user, 'secret', now);
+    expect(decodeSession(token, 'other secret', now)).toBeNull();
+
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ user: { ...user, uid: 'local:mallory' }, expiresAt: 9e15 })).toString(
+      'base64url'
+    );
+    expect(decodeSession(`${forged}.${signature}`, 'secret', now)).toBeNull();
+    expect(decodeSession('not a token', 'secret', now)).toBeNull();
+  });
+
+  it('expires after the maximum age', () => {
+    const token = encodeSession(user, 'secret', now);
+    const justBefore = new Date(now.getTime() + SESSION_MAX_AGE_SECONDS * 1000 - 1);
+    expect(decodeSession(token, 'secret', justBefore)).toEqual(user);
+    expect(decodeSession(token, 'secret', new Date(now.getTime() + SESSION_MAX_AGE_SECONDS * 1000))).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/** The signed-in user, as the server sees them. */
+export type SessionUser = {
+  /** Stable across sign-ins; trips are owned by it. */
+  uid: string;
+  name: string;
+  email?: string;
+  photoURL?: string;
+};
+
+export const SESSION_COOKIE = 'tripgenius_session';
+
+/** How long a sign-in lasts before the user has to sign in again. */
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7;
+
+/** Outside production, sessions are signed with a fixed secret so local setups work without one. */
+const DEVELOPMENT_SECRET = 'tripgenius-development-secret';
+
+export function sessionSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set to sign session cookies in production.');
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/** Encodes `user` as a signed session token, valid for SESSION_MAX_AGE_SECONDS from `now`. */
+export function encodeSession(user: SessionUser, secret: string, now = new Date()): string {
+  const expiresAt = now.getTime() + SESSION_MAX_AGE_SECONDS * 1000;
+  const payload = Buffer.from(JSON.stringify({ user, expiresAt })).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/** The user in a session token, or null if the token is malformed, forged or expired. */
+export function decodeSession(token: string, secret: string, now = new Date()): SessionUser | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    const { user, expiresAt } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return typeof expiresAt === 'number' && expiresAt > now.getTime() ? user : null;
+  } catch {
+    return null;
+  }
+}
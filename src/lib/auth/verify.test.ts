@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { verifySignIn } from '@/lib/auth/verify';
+
+describe('verifySignIn', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('signs local users in by email address, ignoring case', async () => {
+    const user = await verifySignIn({ provider: 'local', name: ' Ada ', email: 'Ada@Example.com' });
+    expect(user).toEqual({ uid: expect.stringMatching(/^local:[0-9a-f]{24}$/), name: 'Ada', email: 'ada@example.com' });
+    expect((await verifySignIn({ provider: 'local', name: 'A. L.', email: 'ada@example.com' })).uid).toBe(user.uid);
+    expect((await verifySignIn({ provider: 'local', name: 'Ada', email: 'bob@example.com' })).uid).not.toBe(user.uid);
+  });
+
+  it('rejects incomplete local credentials', async () => {
+    await expect(verifySignIn({ provider: 'local', name: 'Ada', email: 'ada' })).rejects.toThrow(
+      'Enter a valid email address.'
+    );
+    await expect(verifySignIn({ provider: 'local', name: ' ', email: 'ada@example.com' })).rejects.toThrow(
+      'Enter your name.'
+    );
+  });
+
+  it('only accepts the configured provider', async () => {
+    await expect(verifySignIn({ provider: 'firebase', idToken: 'token' })).rejects.toThrow(
+      'firebase sign-in is not enabled.'
+    );
+    vi.stubEnv('NEXT_PUBLIC_AUTH_PROVIDER', 'firebase');
+    await expect(verifySignIn({ provider: 'local', name: 'Ada', email: 'ada@example.com' })).rejects.toThrow(
+      'local sign-in is not enabled.'
+    );
+  });
+
+  it('signs in with Firebase by default in production, and never with local sign-in', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    await expect(verifySignIn({ provider: 'local', name: 'Ada', email: 'ada@example.com' })).rejects.toThrow(
+      'local sign-in is not enabled.'
+    );
+    vi.stubEnv('NEXT_PUBLIC_AUTH_PROVIDER', 'local');
+    await expect(verifySignIn({ provider: 'local', name: 'Ada', email: 'ada@example.com' })).rejects.toThrow(
+      'Local sign-in cannot be used in production.'
+    );
+  });
+
+  it('verifies Firebase ID tokens with the Auth emulator', async () => {
+    vi.stubEnv('NEXT_PUBLIC_AUTH_PROVIDER', 'firebase');
+    vi.stubEnv('NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST', '127.0.0.1:9099');
+    const fetch = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ users: [{ localId: 'u1', displayName: 'Ada', email: 'ada@example.com' }] }))
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(verifySignIn({ provider: 'firebase', idToken: 'token' })).resolves.toEqual({
+      uid: 'firebase:u1',
+      name: 'Ada',
+      email: 'ada@example.com',
+    });
+    expect(fetch).toHaveBeenCalledWith(
+      'http://127.0.0.1:9099/identitytoolkit.googleapis.com/v1/accounts:lookup?key=demo-api-key',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ idToken: 'token' }) })
+    );
+  });
+
+  it('rejects Firebase ID tokens the API does not recognise', async () => {
+    vi.stubEnv('NEXT_PUBLIC_AUTH_PROVIDER', 'firebase');
+    vi.stubEnv('NEXT_PUBLIC_FIREBASE_API_KEY', 'key');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('{"error":{"message":"INVALID_ID_TOKEN"}}', { status: 400 })));
+
+    await expect(verifySignIn({ provider: 'firebase', idToken: 'forged' })).rejects.toThrow(
+      'The Firebase sign-in could not be verified.'
+    );
+  });
+});
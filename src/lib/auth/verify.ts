@@ -0,0 +1,42 @@
+import { createHash } from 'node:crypto';
+
+import { authProvider, SignInCredentialsSchema, type SignInCredentials } from '@/lib/auth/providers';
+import type { SessionUser } from '@/lib/auth/session';
+
+/**
+ * Looks the ID token up with the Identity Toolkit API, which only answers for
+ * valid, unexpired tokens. The Auth emulator serves the same API.
+ */
+async function firebaseUser(idToken: string): Promise<SessionUser> {
+  const emulator = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY || (emulator && 'demo-api-key');
+  if (!apiKey) throw new Error('NEXT_PUBLIC_FIREBASE_API_KEY must be set to verify Firebase sign-ins.');
+  const origin = emulator ? `http://${emulator}/identitytoolkit.googleapis.com` : 'https://identitytoolkit.googleapis.com';
+  const response = await fetch(`${origin}/v1/accounts:lookup?key=${apiKey}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken }),
+  });
+  const account = response.ok ? (await response.json()).users?.[0] : undefined;
+  if (!account) throw new Error('The Firebase sign-in could not be verified.');
+  return {
+    uid: `firebase:${account.localId}`,
+    name: account.displayName || account.email || 'Traveler',
+    email: account.email,
+    photoURL: account.photoUrl,
+  };
+}
+
+/** Checks sign-in credentials against the configured provider and returns the user they belong to. */
+export async function verifySignIn(credentials: SignInCredentials): Promise<SessionUser> {
+  const parsed = SignInCredentialsSchema.safeParse(credentials);
+  if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+  if (parsed.data.provider !== authProvider()) {
+    throw new Error(`${parsed.data.provider} sign-in is not enabled.`);
+  }
+  if (parsed.data.provider === 'firebase') return firebaseUser(parsed.data.idToken);
+
+  // Local accounts are keyed by email address, so signing in again finds the same trips.
+  const { name, email } = parsed.data;
+  return { uid: `local:${createHash('sha256').update(email).digest('hex').slice(0, 24)}`, name, email };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+
+import type { CostLineItem } from '@/ai/flows/generate-personalized-itinerary';
+import { adjustCostTotal, costCurrency, formatMoney, normalizeCostCurrency, summarizeCosts } from '@/lib/costs';
+import { convertCurrency } from '@/lib/currency';
+
+function line(
+  category: CostLineItem['category'],
+  basis: CostLineItem['basis'],
+  amount: number,
+  currency = 'EUR'
+): CostLineItem {
+  return { category, basis, amount, low: amount * 0.8, high: amount * 1.2, currency };
+}
+
+describe('summarizeCosts', () => {
+  it('works out per-person and whole-group figures, in category order', () => {
+    const summary = summarizeCosts([line('food', 'perPerson', 100), line('accommodation', 'perGroup', 300)], 3);
+
+    expect(summary.currency).toBe('EUR');
+    expect(summary.rows).toEqual([
+      {
+        category: 'accommodation',
+        basis: 'perGroup',
+        perPerson: { amount: 100, low: 80, high: 120 },
+        group: { amount: 300, low: 240, high: 360 },
+      },
+      {
+        category: 'food',
+        basis: 'perPerson',
+        perPerson: { amount: 100, low: 80, high: 120 },
+        group: { amount: 300, low: 240, high: 360 },
+      },
+    ]);
+    expect(summary.total).toEqual({ amount: 600, low: 480, high: 720 });
+  });
+
+  it('counts at least one traveler', () => {
+    expect(summarizeCosts([line('food', 'perPerson', 100)], 0).total.amount).toBe(100);
+  });
+
+  it('totals nothing for an empty breakdown, in US dollars', () => {
+    expect(summarizeCosts([], 2)).toEqual({ currency: 'USD', rows: [], total: { amount: 0, low: 0, high: 0 } });
+    expect(costCurrency([])).toBe('USD');
+  });
+});
+
+describe('normalizeCostCurrency', () => {
+  it('converts items priced in another currency', () => {
+    const [food, transport] = normalizeCostCurrency(
+      [line('food', 'perPerson', 100), line('transport', 'perGroup', 100, 'USD')],
+      'EUR'
+    );
+
+    expect(food).toEqual(line('food', 'perPerson', 100));
+    expect(transport).toEqual({
+      category: 'transport',
+      basis: 'perGroup',
+      currency: 'EUR',
+      amount: convertCurrency(100, 'USD', 'EUR'),
+      low: convertCurrency(80, 'USD', 'EUR'),
+      high: convertCurrency(120, 'USD', 'EUR'),
+    });
+  });
+
+  it('leaves items in unknown currencies as they are', () => {
+    const item = line('misc', 'perGroup', 10, 'XYZ');
+
+    expect(normalizeCostCurrency([item], 'EUR')).toEqual([item]);
+  });
+});
+
+describe('adjustCostTotal', () => {
+  const items = [line('food', 'perPerson', 100), line('accommodation', 'perGroup', 400)];
+
+  it('moves the group total by the change, in proportion to each category', () => {
+    const adjusted = adjustCostTotal(items, 2, 300);
+
+    expect(summarizeCosts(adjusted, 2).total.amount).toBe(900);
+    expect(adjusted).toEqual([
+      line('food', 'perPerson', 150),
+      line('accommodation', 'perGroup', 600),
+    ]);
+  });
+
+  it('never takes the total below nothing', () => {
+    expect(summarizeCosts(adjustCostTotal(items, 2, -1000), 2).total.amount).toBe(0);
+  });
+
+  it('leaves an empty breakdown as it is', () => {
+    expect(adjustCostTotal([], 2, 100)).toEqual([]);
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats whole amounts in the currency', () => {
+    expect(formatMoney(1234.56, 'USD')).toBe('$1,235');
+  });
+
+  it('falls back to a plain number for an unknown currency code', () => {
+    expect(formatMoney(1234.56, 'NOT A CODE')).toBe('1,235 NOT A CODE');
+  });
+});
@@ -0,0 +1,122 @@
+import type { CostLineItem } from '@/ai/flows/generate-personalized-itinerary';
+import { convertCurrency, isSupportedCurrency } from '@/lib/currency';
+
+export const COST_CATEGORIES = ['accommodation', 'transport', 'food', 'activities', 'misc'] as const;
+
+export type CostCategory = (typeof COST_CATEGORIES)[number];
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  accommodation: 'Accommodation',
+  transport: 'Transport',
+  food: 'Food',
+  activities: 'Activities',
+  misc: 'Miscellaneous',
+};
+
+export type CostRange = {
+  amount: number;
+  low: number;
+  high: number;
+};
+
+export type CostSummaryRow = {
+  category: CostCategory;
+  basis: CostLineItem['basis'];
+  perPerson: CostRange;
+  group: CostRange;
+};
+
+export type CostSummary = {
+  currency: string;
+  rows: CostSummaryRow[];
+  total: CostRange;
+};
+
+export function costCurrency(items: CostLineItem[]): string {
+  return items[0]?.currency ?? 'USD';
+}
+
+/**
+ * Converts any line items the model priced in another currency into
+ * `currency`, so the breakdown can be totalled. Items in currencies missing
+ * from the exchange-rate snapshot are left as they are.
+ */
+export function normalizeCostCurrency(items: CostLineItem[], currency: string): CostLineItem[] {
+  return items.map((item) => {
+    if (item.currency === currency || !isSupportedCurrency(item.currency)) return item;
+    const convert = (amount: number) => convertCurrency(amount, item.currency, currency);
+    return {
+      ...item,
+      currency,
+      amount: convert(item.amount),
+      low: convert(item.low),
+      high: convert(item.high),
+    };
+  });
+}
+
+function scale(range: CostRange, factor: number): CostRange {
+  return {
+    amount: range.amount * factor,
+    low: range.low * factor,
+    high: range.high * factor,
+  };
+}
+
+/**
+ * Normalises the model's cost line items into per-person and whole-group
+ * figures so they can be totalled, ordered by COST_CATEGORIES.
+ */
+export function summarizeCosts(items: CostLineItem[], travelers: number): CostSummary {
+  const headcount = Math.max(1, travelers);
+  const rows = COST_CATEGORIES.flatMap((category) =>
+    items
+      .filter((item) => item.category === category)
+      .map((item): CostSummaryRow => {
+        const range = { amount: item.amount, low: item.low, high: item.high };
+        return item.basis === 'perPerson'
+          ? { category, basis: item.basis, perPerson: range, group: scale(range, headcount) }
+          : { category, basis: item.basis, perPerson: scale(range, 1 / headcount), group: range };
+      })
+  );
+
+  const total = rows.reduce<CostRange>(
+    (sum, row) => ({
+      amount: sum.amount + row.group.amount,
+      low: sum.low + row.group.low,
+      high: sum.high + row.group.high,
+    }),
+    { amount: 0, low: 0, high: 0 }
+  );
+
+  return { currency: costCurrency(items), rows, total };
+}
+
+/**
+ * Scales every line item so that the group total changes by `change`, keeping
+ * each category's share of it. Used when only part of an itinerary is repriced.
+ */
+export function adjustCostTotal(items: CostLineItem[], travelers: number, change: number): CostLineItem[] {
+  const total = summarizeCosts(items, travelers).total.amount;
+  if (change === 0 || total <= 0) return items;
+  const factor = Math.max(0, total + change) / total;
+  return items.map((item) => ({
+    ...item,
+    amount: item.amount * factor,
+    low: item.low * factor,
+    high: item.high * factor,
+  }));
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    // Unknown currency codes make Intl throw; fall back to a plain number.
+    return `${Math.round(amount).toLocaleString('en-US')} ${currency}`;
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { convertCurrency, isSupportedCurrency, parseRateSnapshot } from '@/lib/currency';
+
+const snapshot = parseRateSnapshot({
+  base: 'USD',
+  asOf: '2030-01-01',
+  rates: { USD: 1, EUR: 0.8, GBP: 0.5 },
+});
+
+describe('convertCurrency', () => {
+  it('converts through the base currency of the snapshot', () => {
+    expect(convertCurrency(100, 'USD', 'EUR', snapshot)).toBe(80);
+    expect(convertCurrency(80, 'EUR', 'USD', snapshot)).toBe(100);
+    expect(convertCurrency(80, 'EUR', 'GBP', snapshot)).toBe(50);
+  });
+
+  it('leaves an amount in its own currency as it is', () => {
+    expect(convertCurrency(42, 'XYZ', 'XYZ', snapshot)).toBe(42);
+  });
+
+  it('refuses currencies missing from the snapshot', () => {
+    expect(() => convertCurrency(10, 'USD', 'JPY', snapshot)).toThrow(
+      'No exchange rate from USD to JPY in the 2030-01-01 snapshot.'
+    );
+  });
+
+  it('uses the bundled snapshot by default', () => {
+    expect(isSupportedCurrency('INR')).toBe(true);
+    expect(convertCurrency(1, 'USD', 'USD')).toBe(1);
+    expect(convertCurrency(100, 'USD', 'EUR')).toBeGreaterThan(0);
+  });
+});
+
+describe('isSupportedCurrency', () => {
+  it('knows the currencies of the snapshot', () => {
+    expect(isSupportedCurrency('GBP', snapshot)).toBe(true);
+    expect(isSupportedCurrency('INR', snapshot)).toBe(false);
+  });
+});
+
+describe('parseRateSnapshot', () => {
+  it('requires the base currency to be priced at 1', () => {
+    expect(() => parseRateSnapshot({ base: 'EUR', asOf: '2030-01-01', rates: { EUR: 1.1, USD: 1 } })).toThrow(
+      'Exchange rate snapshot must price its base currency EUR at 1.'
+    );
+  });
+
+  it('rejects malformed snapshots', () => {
+    expect(() => parseRateSnapshot({ base: 'USD', asOf: '2030-01-01', rates: { USD: 1, EUR: -0.8 } })).toThrow();
+    expect(() => parseRateSnapshot({ base: 'US', asOf: '2030-01-01', rates: { US: 1 } })).toThrow();
+    expect(() => parseRateSnapshot({ rates: { USD: 1 } })).toThrow();
+  });
+});
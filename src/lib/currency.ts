@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+import defaultSnapshot from '@/data/exchange-rates.json';
+
+const ExchangeRateSnapshotSchema = z.object({
+  base: z.string().length(3),
+  asOf: z.string(),
+  rates: z.record(z.string().length(3), z.number().positive()),
+});
+
+/** Offline exchange rates: how many units of each currency one unit of `base` buys. */
+export type ExchangeRateSnapshot = z.infer<typeof ExchangeRateSnapshotSchema>;
+
+/** Validates exchange rates read from a JSON file. */
+export function parseRateSnapshot(json: unknown): ExchangeRateSnapshot {
+  const snapshot = ExchangeRateSnapshotSchema.parse(json);
+  if (snapshot.rates[snapshot.base] !== 1) {
+    throw new Error(`Exchange rate snapshot must price its base currency ${snapshot.base} at 1.`);
+  }
+  return snapshot;
+}
+
+export const DEFAULT_RATE_SNAPSHOT = parseRateSnapshot(defaultSnapshot);
+
+export const SUPPORTED_CURRENCIES = Object.keys(DEFAULT_RATE_SNAPSHOT.rates).sort() as [string, ...string[]];
+
+export function isSupportedCurrency(currency: string, snapshot = DEFAULT_RATE_SNAPSHOT): boolean {
+  return currency in snapshot.rates;
+}
+
+export function convertCurrency(
+  amount: number,
+  from: string,
+  to: string,
+  snapshot: ExchangeRateSnapshot = DEFAULT_RATE_SNAPSHOT
+): number {
+  if (from === to) return amount;
+  const fromRate = snapshot.rates[from];
+  const toRate = snapshot.rates[to];
+  if (fromRate === undefined || toRate === undefined) {
+    throw new Error(`No exchange rate from ${from} to ${to} in the ${snapshot.asOf} snapshot.`);
+  }
+  return (amount / fromRate) * toRate;
+}
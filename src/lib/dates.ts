@@ -0,0 +1,34 @@
+/**
+ * Helpers for calendar dates in YYYY-MM-DD form. All arithmetic happens in
+ * UTC so results never shift with the runtime's time zone or DST.
+ */
+
+function parseIsoDate(isoDate: string): Date {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(isoDate: string, amount: number): string {
+  const date = parseIsoDate(isoDate);
+  date.setUTCDate(date.getUTCDate() + amount);
+  return formatIsoDate(date);
+}
+
+/** Returns `days` consecutive dates beginning with `startDate`. */
+export function tripDates(startDate: string, days: number): string[] {
+  return Array.from({ length: days }, (_, i) => addDays(startDate, i));
+}
+
+/** Day of the week, 0 (Sunday) to 6 (Saturday). */
+export function weekdayOf(isoDate: string): number {
+  return parseIsoDate(isoDate).getUTCDay();
+}
+
+/** Month of the year, 1 to 12. */
+export function monthOf(isoDate: string): number {
+  return Number(isoDate.slice(5, 7));
+}
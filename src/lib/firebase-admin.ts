@@ -0,0 +1,22 @@
+import { applicationDefault, getApps, initializeApp, type App } from 'firebase-admin/app';
+
+import { EMULATOR_PROJECT_ID } from '@/lib/firebase';
+
+/**
+ * The Firebase Admin app the server stores trips with. Server-only. Admin
+ * requests are not subject to the security rules, which keep every client out
+ * (see firestore.rules), so the server actions are the only way in.
+ * Production signs in with Application Default Credentials: the runtime's
+ * service account, or GOOGLE_APPLICATION_CREDENTIALS. With
+ * FIRESTORE_EMULATOR_HOST set, no credentials are needed and the SDK talks to
+ * the emulator by itself.
+ */
+export function firebaseAdminApp(): App {
+  const [app] = getApps();
+  if (app) return app;
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  if (process.env.FIRESTORE_EMULATOR_HOST) {
+    return initializeApp({ projectId: projectId || EMULATOR_PROJECT_ID });
+  }
+  return initializeApp({ credential: applicationDefault(), projectId });
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+
+import { emulatorAddress } from '@/lib/firebase';
+
+describe('emulatorAddress', () => {
+  it('splits the host and port', () => {
+    expect(emulatorAddress('127.0.0.1:8080')).toEqual({ host: '127.0.0.1', port: 8080 });
+    expect(emulatorAddress('localhost:9099')).toEqual({ host: 'localhost', port: 9099 });
+  });
+
+  it.each(['127.0.0.1', ':8080', 'localhost:port'])('rejects "%s"', (address) => {
+    expect(() => emulatorAddress(address)).toThrow(`Invalid emulator address "${address}"`);
+  });
+});
@@ -0,0 +1,52 @@
+import { getApp, getApps, initializeApp, type FirebaseApp, type FirebaseOptions } from 'firebase/app';
+
+/** The project the emulators run under; "demo-" projects never reach production. */
+export const EMULATOR_PROJECT_ID = 'demo-tripgenius';
+
+/**
+ * Whether the web app uses the local Auth emulator, which setting
+ * NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST (e.g. "127.0.0.1:9099", as
+ * `firebase emulators:start` prints) turns on. The server reaches Firestore
+ * through the Admin SDK instead (see firebase-admin.ts).
+ */
+export function usesEmulators(): boolean {
+  return Boolean(process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST);
+}
+
+/** Splits an emulator address such as "127.0.0.1:8080" into its host and port. */
+export function emulatorAddress(hostAndPort: string): { host: string; port: number } {
+  const separator = hostAndPort.lastIndexOf(':');
+  const port = Number(hostAndPort.slice(separator + 1));
+  if (separator < 1 || !Number.isInteger(port)) {
+    throw new Error(`Invalid emulator address "${hostAndPort}". Use host:port, e.g. 127.0.0.1:8080.`);
+  }
+  return { host: hostAndPort.slice(0, separator), port };
+}
+
+/**
+ * The web app config. Production reads it from the NEXT_PUBLIC_FIREBASE_*
+ * variables; the emulators only need a project ID, which defaults to a demo
+ * project.
+ */
+function firebaseOptions(): FirebaseOptions {
+  const options: FirebaseOptions = {
+    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+  };
+  if (usesEmulators()) {
+    return { ...options, apiKey: options.apiKey || 'demo-api-key', projectId: options.projectId || EMULATOR_PROJECT_ID };
+  }
+  if (!options.apiKey || !options.projectId) {
+    throw new Error(
+      'Firebase is not configured. Set NEXT_PUBLIC_FIREBASE_API_KEY and NEXT_PUBLIC_FIREBASE_PROJECT_ID, or an emulator host to use the emulators.'
+    );
+  }
+  return options;
+}
+
+/** The shared Firebase web app, created on first use. It only signs users in. */
+export function firebaseApp(): FirebaseApp {
+  return getApps().length ? getApp() : initializeApp(firebaseOptions());
+}
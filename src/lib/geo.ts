@@ -0,0 +1,15 @@
+export type Coordinates = {
+  lat: number;
+  lng: number;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+/** Great-circle distance between two points, in kilometres. */
+export function haversineKm(a: Coordinates, b: Coordinates): number {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(b.lat - a.lat);
+  const dLng = radians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(radians(a.lat)) * Math.cos(radians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
@@ -0,0 +1,6 @@
+export const INTERESTS = [
+  'Beaches', 'Food', 'Shopping', 'History', 'Culture', 'Adventure', 
+  'Nature', 'Nightlife', 'Religious', 'Photography'
+] as const;
+
+export type Interest = (typeof INTERESTS)[number];
@@ -0,0 +1,39 @@
+import type { ItineraryItem } from '@/ai/schemas';
+import { ITINERARY_SLOTS, type ItinerarySlot } from '@/lib/itinerary';
+
+export type DayFieldChange = {
+  field: ItinerarySlot | 'date' | 'subtotal';
+  before: string;
+  after: string;
+};
+
+export type DayDiff = {
+  day: number;
+  status: 'added' | 'removed' | 'changed';
+  changes: DayFieldChange[];
+};
+
+const COMPARED_FIELDS = ['date', ...ITINERARY_SLOTS, 'subtotal'] as const;
+
+function fieldText(item: ItineraryItem | undefined, field: (typeof COMPARED_FIELDS)[number]): string {
+  return item === undefined ? '' : String(item[field]);
+}
+
+/**
+ * Compares two itineraries day by day (matched on day number) and returns
+ * only the days that differ, with the fields that changed.
+ */
+export function diffItineraries(before: ItineraryItem[], after: ItineraryItem[]): DayDiff[] {
+  const dayNumbers = [...new Set([...before, ...after].map((item) => item.day))].sort((a, b) => a - b);
+
+  return dayNumbers.flatMap((day): DayDiff[] => {
+    const previous = before.find((item) => item.day === day);
+    const next = after.find((item) => item.day === day);
+    const changes = COMPARED_FIELDS.filter((field) => fieldText(previous, field) !== fieldText(next, field)).map(
+      (field) => ({ field, before: fieldText(previous, field), after: fieldText(next, field) })
+    );
+    if (changes.length === 0) return [];
+    const status = !previous ? 'added' : !next ? 'removed' : 'changed';
+    return [{ day, status, changes }];
+  });
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { dayColor, dayStops, DAY_COLORS } from '@/lib/itinerary-map';
+
+describe('dayStops', () => {
+  it('orders the stops by time slot, whatever order the places were listed in', () => {
+    const stops = dayStops({
+      day: 2,
+      date: '2030-05-11',
+      morning: 'Visit the Colosseum',
+      afternoon: 'Lunch in Monti',
+      evening: 'Stroll around Trastevere',
+      subtotal: 150,
+      places: [
+        { slot: 'evening', name: 'Trastevere', lat: 41.8897, lng: 12.47 },
+        { slot: 'morning', poiId: 'rome-colosseum', name: 'Colosseum', lat: 41.8902, lng: 12.4922 },
+        { slot: 'afternoon', name: 'Monti', lat: 41.8955, lng: 12.4943 },
+      ],
+    });
+
+    expect(stops.map((stop) => [stop.day, stop.slot, stop.name])).toEqual([
+      [2, 'morning', 'Colosseum'],
+      [2, 'afternoon', 'Monti'],
+      [2, 'evening', 'Trastevere'],
+    ]);
+  });
+
+  it('has no stops for a day without places', () => {
+    expect(dayStops({ day: 1, date: '2030-05-10', morning: '', afternoon: '', evening: '', subtotal: 0 })).toEqual([]);
+  });
+});
+
+describe('dayColor', () => {
+  it('cycles through the palette', () => {
+    expect(dayColor(1)).toBe(DAY_COLORS[0]);
+    expect(dayColor(DAY_COLORS.length + 1)).toBe(DAY_COLORS[0]);
+  });
+});
@@ -0,0 +1,45 @@
+import type { ItineraryItem } from '@/ai/schemas';
+import { ITINERARY_SLOTS, type ItinerarySlot } from '@/lib/itinerary';
+
+export type MapStop = {
+  day: number;
+  slot: ItinerarySlot;
+  name: string;
+  lat: number;
+  lng: number;
+};
+
+export type TileSource = {
+  /** A Leaflet URL template such as `https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png`. */
+  url: string;
+  attribution: string;
+  maxZoom: number;
+};
+
+/**
+ * The map tiles, configurable so the map also works against a local or
+ * self-hosted tile server. NEXT_PUBLIC_ variables are inlined at build time.
+ */
+export const TILE_SOURCE: TileSource = {
+  url: process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution:
+    process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ||
+    '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: Number(process.env.NEXT_PUBLIC_MAP_TILE_MAX_ZOOM) || 19,
+};
+
+/** Route colours, cycled through by day. */
+export const DAY_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#9333ea', '#ea580c', '#0891b2', '#ca8a04'];
+
+export function dayColor(day: number): string {
+  return DAY_COLORS[(day - 1) % DAY_COLORS.length];
+}
+
+/** The geocoded stops of a day, in the order they are visited. */
+export function dayStops(day: ItineraryItem): MapStop[] {
+  return ITINERARY_SLOTS.flatMap((slot) =>
+    (day.places ?? [])
+      .filter((place) => place.slot === slot)
+      .map((place) => ({ day: day.day, slot, name: place.name, lat: place.lat, lng: place.lng }))
+  );
+}
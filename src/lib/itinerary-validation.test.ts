@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ItineraryItem } from '@/ai/schemas';
+import { preferenceTerms, validateItinerary } from '@/lib/itinerary-validation';
+
+function day(dayNumber: number, date: string, activities: Partial<ItineraryItem> = {}): ItineraryItem {
+  return {
+    day: dayNumber,
+    date,
+    morning: 'Walk along the river',
+    afternoon: 'Lunch in the old town',
+    evening: 'Dinner by the harbour',
+    subtotal: 100,
+    ...activities,
+  };
+}
+
+const requirements = { stops: [{ destination: 'Lisbon, Portugal', days: 3 }], startDate: '2030-03-30', days: 3 };
+const itinerary = [day(1, '2030-03-30'), day(2, '2030-03-31'), day(3, '2030-04-01')];
+
+describe('validateItinerary', () => {
+  it('accepts an itinerary that meets every requirement', () => {
+    expect(validateItinerary(itinerary, requirements)).toEqual([]);
+  });
+
+  it('reports a missing or extra day', () => {
+    expect(validateItinerary(itinerary.slice(0, 2), requirements)).toEqual([
+      { code: 'dayCount', message: 'The itinerary has 2 days but the trip is 3 days long.' },
+    ]);
+    expect(validateItinerary(itinerary, { ...requirements, days: 2 }).map((issue) => issue.code)).toEqual([
+      'dayCount',
+    ]);
+  });
+
+  it('reports dates that are not consecutive from the start date, across a month boundary', () => {
+    const issues = validateItinerary([itinerary[0], itinerary[1], day(3, '2030-03-32')], requirements);
+    expect(issues).toEqual([
+      { code: 'date', day: 3, message: 'Day 3 is dated 2030-03-32 but should be 2030-04-01.' },
+    ]);
+  });
+
+  it('reports misnumbered days', () => {
+    const issues = validateItinerary([itinerary[0], { ...itinerary[1], day: 3 }, itinerary[2]], requirements);
+    expect(issues.map((issue) => [issue.code, issue.day])).toEqual([['dayNumber', 3]]);
+  });
+
+  it('reports must-include items that appear on no day, ignoring case', () => {
+    const issues = validateItinerary(
+      [itinerary[0], day(2, '2030-03-31', { afternoon: 'Tour of the ALFAMA district' }), itinerary[2]],
+      { ...requirements, mustInclude: 'Alfama, Belem Tower' }
+    );
+    expect(issues).toEqual([
+      { code: 'mustInclude', message: 'The must-include item "Belem Tower" does not appear in any day.' },
+    ]);
+  });
+
+  it('reports every day that mentions an avoided term as a whole word', () => {
+    const issues = validateItinerary(
+      [
+        day(1, '2030-03-30', { evening: 'Cocktails at a rooftop bar' }),
+        day(2, '2030-03-31', { morning: 'Stroll to the barbershop museum' }),
+        day(3, '2030-04-01', { evening: 'Bar hopping' }),
+      ],
+      { ...requirements, avoid: 'bar' }
+    );
+    expect(issues.map((issue) => issue.day)).toEqual([1, 3]);
+  });
+
+  it('reports references to places that are not in the dataset', () => {
+    const issues = validateItinerary(
+      [
+        day(1, '2030-03-30', {
+          places: [{ slot: 'morning', poiId: 'lisbon-belem-tower', name: 'Belem Tower', lat: 38.6916, lng: -9.216 }],
+        }),
+        day(2, '2030-03-31', {
+          places: [
+            { slot: 'afternoon', name: 'Miradouro da Graca', lat: 38.7163, lng: -9.1315 },
+            { slot: 'evening', poiId: 'lisbon-made-up-bar', name: 'Made-up Bar', lat: 38.71, lng: -9.14 },
+          ],
+        }),
+        itinerary[2],
+      ],
+      requirements
+    );
+    expect(issues).toEqual([
+      {
+        code: 'unknownPlace',
+        day: 2,
+        message: 'The evening of day 2 references "lisbon-made-up-bar", which is not a known place ID.',
+      },
+    ]);
+  });
+
+  it('reports visits to places while they are closed, using dataset hours over model-provided ones', () => {
+    const issues = validateItinerary(
+      [
+        itinerary[0],
+        itinerary[1],
+        // 2030-04-01 is a Monday, when Belem Tower is closed.
+        day(3, '2030-04-01', {
+          places: [
+            {
+              slot: 'morning',
+              poiId: 'lisbon-belem-tower',
+              name: 'Belem Tower',
+              lat: 38.6916,
+              lng: -9.216,
+              openingHours: [{ days: [0, 1, 2, 3, 4, 5, 6], open: '09:00', close: '18:00' }],
+            },
+            {
+              slot: 'evening',
+              name: 'Tile Museum',
+              lat: 38.7247,
+              lng: -9.1136,
+              openingHours: [{ days: [1, 2, 3, 4, 5], open: '10:00', close: '18:00' }],
+            },
+          ],
+        }),
+      ],
+      requirements
+    );
+    expect(issues).toEqual([
+      {
+        code: 'closed',
+        day: 3,
+        slot: 'morning',
+        message: 'Day 3 visits Belem Tower in the morning, but it is closed on Mondays.',
+      },
+      {
+        code: 'closed',
+        day: 3,
+        slot: 'evening',
+        message: 'Day 3 visits Tile Museum in the evening, but it is only open 10:00–18:00 on Mondays.',
+      },
+    ]);
+  });
+});
+
+describe('validateItinerary with several stops', () => {
+  const twoStops = {
+    stops: [
+      { destination: 'Lisbon, Portugal', days: 2 },
+      { destination: 'Barcelona, Spain', days: 1 },
+    ],
+    startDate: '2030-03-30',
+    days: 3,
+  };
+  const train = {
+    from: 'Lisbon',
+    to: 'Barcelona',
+    date: '2030-04-01',
+    mode: 'train' as const,
+    durationHours: 9,
+    cost: 180,
+  };
+
+  it('accepts a journey on the first day of the next stop, naming the stops loosely', () => {
+    expect(validateItinerary(itinerary, twoStops, [train])).toEqual([]);
+  });
+
+  it('reports a missing or misdated journey between stops', () => {
+    expect(validateItinerary(itinerary, twoStops)).toEqual([
+      { code: 'transport', day: 3, message: 'There is no transport leg from Lisbon, Portugal to Barcelona, Spain.' },
+    ]);
+    expect(validateItinerary(itinerary, twoStops, [{ ...train, date: '2030-03-31' }])).toEqual([
+      {
+        code: 'transport',
+        day: 3,
+        message:
+          'The journey from Lisbon, Portugal to Barcelona, Spain is dated 2030-03-31 but should be 2030-04-01, the first day at Barcelona, Spain.',
+      },
+    ]);
+  });
+
+  it("reports dataset places planned on another stop's days", () => {
+    const issues = validateItinerary(
+      [
+        itinerary[0],
+        day(2, '2030-03-31', {
+          places: [{ slot: 'morning', poiId: 'barcelona-sagrada-familia', name: 'Sagrada Familia', lat: 41.4036, lng: 2.1744 }],
+        }),
+        itinerary[2],
+      ],
+      twoStops,
+      [train]
+    );
+    expect(issues).toEqual([
+      {
+        code: 'wrongStop',
+        day: 2,
+        slot: 'morning',
+        message: 'Day 2 visits Sagrada Familia, which is in Barcelona, but the day is spent in Lisbon.',
+      },
+    ]);
+  });
+});
+
+describe('preferenceTerms', () => {
+  it('splits a comma-separated list and drops empty entries', () => {
+    expect(preferenceTerms(' Louvre ,, Eiffel Tower, ')).toEqual(['Louvre', 'Eiffel Tower']);
+    expect(preferenceTerms(undefined)).toEqual([]);
+  });
+});
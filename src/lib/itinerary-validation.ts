@@ -0,0 +1,163 @@
+import type { GeneratePersonalizedItineraryInput, ItineraryItem, TransportLeg } from '@/ai/schemas';
+import { tripDates } from '@/lib/dates';
+import { ITINERARY_SLOTS, type ItinerarySlot } from '@/lib/itinerary';
+import { closureReason } from '@/lib/opening-hours';
+import { getPointOfInterest, placeOpeningHours } from '@/lib/poi';
+import { findDestination } from '@/lib/pricing/destinations';
+import { isSameStop, scheduleStops, stopForDay } from '@/lib/trip-stops';
+
+export type ValidationIssueCode =
+  | 'dayCount'
+  | 'dayNumber'
+  | 'date'
+  | 'mustInclude'
+  | 'avoid'
+  | 'unknownPlace'
+  | 'closed'
+  | 'wrongStop'
+  | 'transport';
+
+export type ValidationIssue = {
+  code: ValidationIssueCode;
+  /** The day the issue was found on, for issues tied to a single day. */
+  day?: number;
+  /** The slot the issue was found in, for issues tied to a single activity. */
+  slot?: ItinerarySlot;
+  message: string;
+};
+
+export type ItineraryRequirements = Pick<
+  GeneratePersonalizedItineraryInput,
+  'stops' | 'startDate' | 'days' | 'mustInclude' | 'avoid'
+>;
+
+/** Splits a comma-separated preference field into its trimmed, non-empty terms. */
+export function preferenceTerms(list: string | undefined): string[] {
+  return (list ?? '')
+    .split(',')
+    .map((term) => term.trim())
+    .filter(Boolean);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whether `text` mentions `term` as a whole word or phrase, ignoring case. */
+function mentions(text: string, term: string): boolean {
+  return new RegExp(`(^|\\W)${escapeRegExp(term)}($|\\W)`, 'i').test(text);
+}
+
+/**
+ * Checks the itinerary against the hard requirements of the request: one
+ * entry per trip day, numbered from 1 on consecutive dates from the start
+ * date, every must-include item planned somewhere, no avoided term in any
+ * activity, no reference to a place that is not in the dataset or not at
+ * the day's stop, no visit to a place while it is closed, and a transport
+ * leg on the first day of every stop after the first.
+ */
+export function validateItinerary(
+  itinerary: ItineraryItem[],
+  requirements: ItineraryRequirements,
+  transportLegs: TransportLeg[] = []
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (itinerary.length !== requirements.days) {
+    issues.push({
+      code: 'dayCount',
+      message: `The itinerary has ${itinerary.length} days but the trip is ${requirements.days} days long.`,
+    });
+  }
+
+  const expectedDates = tripDates(requirements.startDate, itinerary.length);
+  itinerary.forEach((item, index) => {
+    if (item.day !== index + 1) {
+      issues.push({
+        code: 'dayNumber',
+        day: item.day,
+        message: `Entry ${index + 1} is numbered day ${item.day}; days must be numbered 1, 2, 3 and so on.`,
+      });
+    }
+    if (item.date !== expectedDates[index]) {
+      issues.push({
+        code: 'date',
+        day: index + 1,
+        message: `Day ${index + 1} is dated ${item.date} but should be ${expectedDates[index]}.`,
+      });
+    }
+    const stop = findDestination(stopForDay(requirements.stops, index + 1).destination);
+    for (const place of item.places ?? []) {
+      const poi = place.poiId ? getPointOfInterest(place.poiId) : undefined;
+      if (poi && stop.known && poi.destination !== stop.name) {
+        issues.push({
+          code: 'wrongStop',
+          day: index + 1,
+          slot: place.slot,
+          message: `Day ${index + 1} visits ${poi.name}, which is in ${poi.destination}, but the day is spent in ${stop.name}.`,
+        });
+      }
+      if (place.poiId && !poi) {
+        issues.push({
+          code: 'unknownPlace',
+          day: index + 1,
+          message: `The ${place.slot} of day ${index + 1} references "${place.poiId}", which is not a known place ID.`,
+        });
+      }
+      const hours = placeOpeningHours(place);
+      const closed = hours && closureReason(hours, item.date, place.slot);
+      if (closed) {
+        issues.push({
+          code: 'closed',
+          day: index + 1,
+          slot: place.slot,
+          message: `Day ${index + 1} visits ${place.name} in the ${place.slot}, but it is ${closed}.`,
+        });
+      }
+    }
+  });
+
+  const stops = scheduleStops(requirements.stops, requirements.startDate);
+  stops.slice(1).forEach((stop, i) => {
+    const from = stops[i].destination;
+    const leg = transportLegs.find((l) => isSameStop(l.from, from) && isSameStop(l.to, stop.destination));
+    if (!leg) {
+      issues.push({
+        code: 'transport',
+        day: stop.firstDay,
+        message: `There is no transport leg from ${from} to ${stop.destination}.`,
+      });
+    } else if (leg.date !== stop.startDate) {
+      issues.push({
+        code: 'transport',
+        day: stop.firstDay,
+        message: `The journey from ${from} to ${stop.destination} is dated ${leg.date} but should be ${stop.startDate}, the first day at ${stop.destination}.`,
+      });
+    }
+  });
+
+  const activities = itinerary.map((item) => ITINERARY_SLOTS.map((slot) => item[slot]).join('\n'));
+
+  for (const term of preferenceTerms(requirements.mustInclude)) {
+    if (!activities.some((text) => mentions(text, term))) {
+      issues.push({
+        code: 'mustInclude',
+        message: `The must-include item "${term}" does not appear in any day.`,
+      });
+    }
+  }
+
+  for (const term of preferenceTerms(requirements.avoid)) {
+    activities.forEach((text, index) => {
+      if (mentions(text, term)) {
+        issues.push({
+          code: 'avoid',
+          day: index + 1,
+          message: `Day ${index + 1} mentions "${term}", which the traveler wants to avoid.`,
+        });
+      }
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,9 @@
+export const ITINERARY_SLOTS = ['morning', 'afternoon', 'evening'] as const;
+
+export type ItinerarySlot = (typeof ITINERARY_SLOTS)[number];
+
+export const ITINERARY_SLOT_LABELS: Record<ItinerarySlot, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+};
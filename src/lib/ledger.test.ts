@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeBalances, settleUp, withTravelerCount, type LedgerEntry } from '@/lib/ledger';
+
+const ada = { id: 'traveler-1', name: 'Ada' };
+const bo = { id: 'traveler-2', name: 'Bo' };
+const cy = { id: 'traveler-3', name: 'Cy' };
+
+function entry(amount: number, paidBy: string, splitAmong: string[]): LedgerEntry {
+  return { id: `${paidBy}-${amount}`, description: 'Day 1 · Evening', amount, paidBy, splitAmong };
+}
+
+describe('computeBalances', () => {
+  it('splits each expense equally between the travelers sharing it', () => {
+    const entries = [entry(90, ada.id, [ada.id, bo.id, cy.id]), entry(20, bo.id, [bo.id, cy.id])];
+
+    expect(computeBalances([ada, bo, cy], entries)).toEqual([
+      { traveler: ada, paid: 90, owes: 30, net: 60 },
+      { traveler: bo, paid: 20, owes: 40, net: -20 },
+      { traveler: cy, paid: 0, owes: 40, net: -40 },
+    ]);
+  });
+
+  it('rounds shares to the cent', () => {
+    const balances = computeBalances([ada, bo, cy], [entry(10, ada.id, [ada.id, bo.id, cy.id])]);
+
+    expect(balances.map((balance) => balance.owes)).toEqual([3.33, 3.33, 3.33]);
+    expect(balances[0].net).toBe(6.67);
+  });
+
+  it('tells apart travelers who share a name', () => {
+    const otherAda = { id: 'traveler-2', name: 'Ada' };
+
+    expect(computeBalances([ada, otherAda], [entry(40, otherAda.id, [ada.id, otherAda.id])])).toEqual([
+      { traveler: ada, paid: 0, owes: 20, net: -20 },
+      { traveler: otherAda, paid: 40, owes: 20, net: 20 },
+    ]);
+  });
+
+  it('leaves out travelers who are no longer on the trip', () => {
+    const entries = [entry(30, cy.id, [ada.id, cy.id]), entry(30, ada.id, [ada.id, bo.id, cy.id])];
+
+    expect(computeBalances([ada, bo], entries)).toEqual([
+      { traveler: ada, paid: 30, owes: 15, net: 15 },
+      { traveler: bo, paid: 0, owes: 15, net: -15 },
+    ]);
+  });
+});
+
+describe('withTravelerCount', () => {
+  it('adds numbered travelers and removes the last ones', () => {
+    expect(withTravelerCount({ travelers: [ada], entries: [] }, 3).travelers).toEqual([
+      ada,
+      { id: 'traveler-2', name: 'Traveler 2' },
+      { id: 'traveler-3', name: 'Traveler 3' },
+    ]);
+    expect(withTravelerCount({ travelers: [ada, bo, cy], entries: [] }, 0).travelers).toEqual([ada]);
+  });
+
+  it('keeps travelers with expenses, without reusing their IDs', () => {
+    const ledger = withTravelerCount({ travelers: [ada, bo, cy], entries: [entry(30, cy.id, [ada.id, cy.id])] }, 1);
+
+    expect(ledger.travelers).toEqual([ada, cy]);
+    expect(withTravelerCount(ledger, 3).travelers).toEqual([ada, cy, { id: 'traveler-2', name: 'Traveler 2' }]);
+  });
+});
+
+describe('settleUp', () => {
+  it('has the largest debtor pay the largest creditor first', () => {
+    const balances = computeBalances(
+      [ada, bo, cy],
+      [entry(90, ada.id, [ada.id, bo.id, cy.id]), entry(20, bo.id, [bo.id, cy.id])]
+    );
+
+    expect(settleUp(balances)).toEqual([
+      { from: cy, to: ada, amount: 40 },
+      { from: bo, to: ada, amount: 20 },
+    ]);
+  });
+
+  it('needs no transfers when everyone is square', () => {
+    const balances = computeBalances([ada, bo], [entry(10, ada.id, [ada.id]), entry(10, bo.id, [bo.id])]);
+
+    expect(settleUp(balances)).toEqual([]);
+  });
+
+  it('ignores a cent left over by rounding', () => {
+    const balances = computeBalances([ada, bo, cy], [entry(10, ada.id, [ada.id, bo.id, cy.id])]);
+
+    expect(settleUp(balances)).toEqual([
+      { from: bo, to: ada, amount: 3.33 },
+      { from: cy, to: ada, amount: 3.33 },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+export type Traveler = {
+  /** Stays the same when the traveler is renamed, and tells apart travelers with the same name. */
+  id: string;
+  name: string;
+};
+
+export type LedgerEntry = {
+  id: string;
+  /** What the money was spent on, e.g. "Day 2 · Evening". */
+  description: string;
+  amount: number;
+  /** The ID of the traveler who paid. */
+  paidBy: string;
+  /** The IDs of the travelers sharing this expense equally. */
+  splitAmong: string[];
+};
+
+/** Who is on the trip and who paid for what, as saved with the trip. */
+export type Ledger = {
+  travelers: Traveler[];
+  entries: LedgerEntry[];
+};
+
+export type TravelerBalance = {
+  traveler: Traveler;
+  paid: number;
+  owes: number;
+  /** Positive when the traveler is owed money, negative when they owe it. */
+  net: number;
+};
+
+export type Transfer = {
+  from: Traveler;
+  to: Traveler;
+  amount: number;
+};
+
+/**
+ * Resizes the ledger to `count` travelers (at least one). Travelers who paid
+ * for or share an expense are kept even past `count`, so that no expense is
+ * left without its payer.
+ */
+export function withTravelerCount(ledger: Ledger, count: number): Ledger {
+  const inUse = new Set(ledger.entries.flatMap((entry) => [entry.paidBy, ...entry.splitAmong]));
+  const size = Math.max(1, count);
+  const travelers = ledger.travelers.filter((traveler, index) => index < size || inUse.has(traveler.id));
+  for (let n = 1; travelers.length < size; n++) {
+    if (!travelers.some((traveler) => traveler.id === `traveler-${n}`)) {
+      travelers.push({ id: `traveler-${n}`, name: `Traveler ${n}` });
+    }
+  }
+  return { ...ledger, travelers };
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function computeBalances(travelers: Traveler[], entries: LedgerEntry[]): TravelerBalance[] {
+  const balances = new Map(travelers.map((traveler) => [traveler.id, { traveler, paid: 0, owes: 0, net: 0 }]));
+
+  for (const entry of entries) {
+    const sharers = entry.splitAmong.filter((id) => balances.has(id));
+    const payer = balances.get(entry.paidBy);
+    if (!payer || sharers.length === 0) continue;
+    payer.paid += entry.amount;
+    for (const id of sharers) {
+      balances.get(id)!.owes += entry.amount / sharers.length;
+    }
+  }
+
+  return [...balances.values()].map((balance) => ({
+    traveler: balance.traveler,
+    paid: roundCents(balance.paid),
+    owes: roundCents(balance.owes),
+    net: roundCents(balance.paid - balance.owes),
+  }));
+}
+
+/**
+ * Settles every balance with as few transfers as the greedy approach allows:
+ * the largest debtor repeatedly pays the largest creditor.
+ */
+export function settleUp(balances: TravelerBalance[]): Transfer[] {
+  const creditors = balances.filter((b) => b.net > 0).map((b) => ({ traveler: b.traveler, amount: b.net }));
+  const debtors = balances.filter((b) => b.net < 0).map((b) => ({ traveler: b.traveler, amount: -b.net }));
+  const transfers: Transfer[] = [];
+
+  while (creditors.length && debtors.length) {
+    creditors.sort((a, b) => b.amount - a.amount);
+    debtors.sort((a, b) => b.amount - a.amount);
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amount = roundCents(Math.min(creditor.amount, debtor.amount));
+    if (amount > 0) {
+      transfers.push({ from: debtor.traveler, to: creditor.traveler, amount });
+    }
+    creditor.amount = roundCents(creditor.amount - amount);
+    debtor.amount = roundCents(debtor.amount - amount);
+    if (creditor.amount < 0.01) creditors.shift();
+    if (debtor.amount < 0.01) debtors.shift();
+  }
+
+  return transfers;
+}
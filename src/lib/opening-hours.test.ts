@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import { closureReason, hoursOn, isOpenDuring, type OpeningHoursRule } from '@/lib/opening-hours';
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+// 2030-03-04 is a Monday and 2030-03-10 a Sunday.
+describe('isOpenDuring', () => {
+  const museum: OpeningHoursRule[] = [{ days: WEEKDAYS, open: '10:00', close: '17:00' }];
+
+  it('checks the weekday of the date', () => {
+    expect(isOpenDuring(museum, '2030-03-04', 'morning')).toBe(true);
+    expect(isOpenDuring(museum, '2030-03-10', 'morning')).toBe(false);
+  });
+
+  it('needs the place open for at least an hour of the slot', () => {
+    expect(isOpenDuring(museum, '2030-03-04', 'afternoon')).toBe(true);
+    expect(isOpenDuring(museum, '2030-03-04', 'evening')).toBe(false);
+    expect(isOpenDuring([{ days: WEEKDAYS, open: '11:30', close: '17:00' }], '2030-03-04', 'morning')).toBe(false);
+  });
+
+  it('handles hours that run past midnight', () => {
+    const bar: OpeningHoursRule[] = [{ days: [0, 1, 2, 3, 4, 5, 6], open: '20:00', close: '03:00' }];
+    expect(isOpenDuring(bar, '2030-03-04', 'evening')).toBe(true);
+    expect(isOpenDuring(bar, '2030-03-04', 'morning')).toBe(false);
+  });
+
+  it('accepts any of several opening periods', () => {
+    const temple: OpeningHoursRule[] = [
+      { days: WEEKDAYS, open: '04:00', close: '12:00' },
+      { days: WEEKDAYS, open: '17:00', close: '20:00' },
+    ];
+    expect(isOpenDuring(temple, '2030-03-04', 'morning')).toBe(true);
+    expect(isOpenDuring(temple, '2030-03-04', 'afternoon')).toBe(false);
+    expect(isOpenDuring(temple, '2030-03-04', 'evening')).toBe(true);
+    expect(hoursOn(temple, '2030-03-10')).toEqual([]);
+  });
+});
+
+describe('closureReason', () => {
+  const market: OpeningHoursRule[] = [{ days: [3], open: '08:00', close: '18:00' }];
+
+  it('explains closed days and limited hours', () => {
+    expect(closureReason(market, '2030-03-04', 'morning')).toBe('closed on Mondays');
+    expect(closureReason(market, '2030-03-06', 'evening')).toBe('only open 08:00–18:00 on Wednesdays');
+    expect(closureReason(market, '2030-03-06', 'morning')).toBeUndefined();
+  });
+});
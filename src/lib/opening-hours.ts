@@ -0,0 +1,64 @@
+import { weekdayOf } from '@/lib/dates';
+import type { ItinerarySlot } from '@/lib/itinerary';
+
+/**
+ * One opening period that repeats on the given weekdays. A place may have
+ * several (a lunch break splits a day in two). A `close` at or before `open`
+ * runs past midnight, so a bar open 20:00–03:00 serves the whole evening.
+ */
+export type OpeningHoursRule = {
+  /** Days of the week, 0 (Sunday) to 6 (Saturday). */
+  days: number[];
+  /** Opening time, HH:mm. */
+  open: string;
+  /** Closing time, HH:mm. */
+  close: string;
+};
+
+/** The part of the day each slot stands for, as [start, end] in HH:mm. */
+export const SLOT_HOURS: Record<ItinerarySlot, [string, string]> = {
+  morning: ['09:00', '12:00'],
+  afternoon: ['13:00', '17:00'],
+  evening: ['18:00', '22:00'],
+};
+
+/** A visit needs the place to be open for at least this long during the slot. */
+export const MIN_VISIT_MINUTES = 60;
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function openMinutes(rule: OpeningHoursRule, [start, end]: [number, number]): number {
+  const open = minutesOf(rule.open);
+  let close = minutesOf(rule.close);
+  if (close <= open) close += 24 * 60;
+  return Math.max(0, Math.min(close, end) - Math.max(open, start));
+}
+
+/** The periods a place is open on the weekday of `date`. */
+export function hoursOn(hours: OpeningHoursRule[], date: string): OpeningHoursRule[] {
+  const weekday = weekdayOf(date);
+  return hours.filter((rule) => rule.days.includes(weekday));
+}
+
+/** Whether a place with these hours can be visited during `slot` on `date`. */
+export function isOpenDuring(hours: OpeningHoursRule[], date: string, slot: ItinerarySlot): boolean {
+  const window = SLOT_HOURS[slot].map(minutesOf) as [number, number];
+  return hoursOn(hours, date).some((rule) => openMinutes(rule, window) >= MIN_VISIT_MINUTES);
+}
+
+/**
+ * Why a place cannot be visited during `slot` on `date`, in words that fit
+ * after "but it is", or undefined if it can.
+ */
+export function closureReason(hours: OpeningHoursRule[], date: string, slot: ItinerarySlot): string | undefined {
+  if (isOpenDuring(hours, date, slot)) return undefined;
+  const periods = hoursOn(hours, date);
+  const weekday = WEEKDAY_NAMES[weekdayOf(date)];
+  if (periods.length === 0) return `closed on ${weekday}s`;
+  return `only open ${periods.map((rule) => `${rule.open}–${rule.close}`).join(' and ')} on ${weekday}s`;
+}
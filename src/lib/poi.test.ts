@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+
+import { INTERESTS } from '@/lib/interests';
+import { POINTS_OF_INTEREST, findPointsOfInterest, getPointOfInterest } from '@/lib/poi';
+import { DESTINATIONS } from '@/lib/pricing/destinations';
+
+describe('POINTS_OF_INTEREST', () => {
+  it('has unique IDs, known destinations and categories from the interests list', () => {
+    expect(new Set(POINTS_OF_INTEREST.map((poi) => poi.id)).size).toBe(POINTS_OF_INTEREST.length);
+    const destinations = DESTINATIONS.map((profile) => profile.name);
+    for (const poi of POINTS_OF_INTEREST) {
+      expect(destinations).toContain(poi.destination);
+      expect(poi.categories.length).toBeGreaterThan(0);
+      expect(poi.categories.every((category) => (INTERESTS as readonly string[]).includes(category))).toBe(true);
+    }
+  });
+});
+
+describe('findPointsOfInterest', () => {
+  it('matches free-text destinations through their aliases', () => {
+    const places = findPointsOfInterest('Panaji, Goa');
+    expect(places.length).toBeGreaterThan(0);
+    expect(places.every((poi) => poi.destination === 'Goa')).toBe(true);
+  });
+
+  it('narrows the places to any of the given categories', () => {
+    const places = findPointsOfInterest('Lisbon', ['Beaches', 'Nightlife']);
+    expect(places.map((poi) => poi.id).sort()).toEqual(['lisbon-bairro-alto', 'lisbon-cascais-beach']);
+  });
+
+  it('has no places for unknown destinations', () => {
+    expect(findPointsOfInterest('Atlantis')).toEqual([]);
+  });
+});
+
+describe('getPointOfInterest', () => {
+  it('looks places up by ID', () => {
+    expect(getPointOfInterest('rome-colosseum')).toMatchObject({ name: 'Colosseum', destination: 'Rome' });
+    expect(getPointOfInterest('rome-invented-place')).toBeUndefined();
+  });
+});
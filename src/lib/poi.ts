@@ -0,0 +1,50 @@
+import pointsOfInterest from '@/data/points-of-interest.json';
+import type { Interest } from '@/lib/interests';
+import type { OpeningHoursRule } from '@/lib/opening-hours';
+import { findDestination } from '@/lib/pricing/destinations';
+
+export type PointOfInterest = {
+  /** Stable identifier, `<destination>-<name>` in kebab case. */
+  id: string;
+  name: string;
+  /** The name of the matching profile in DESTINATIONS. */
+  destination: string;
+  categories: Interest[];
+  description: string;
+  lat: number;
+  lng: number;
+  /** When the place can be visited; places without hours are always open. */
+  openingHours?: OpeningHoursRule[];
+};
+
+export const POINTS_OF_INTEREST = pointsOfInterest as PointOfInterest[];
+
+const POINTS_BY_ID = new Map(POINTS_OF_INTEREST.map((poi) => [poi.id, poi]));
+
+export function getPointOfInterest(id: string): PointOfInterest | undefined {
+  return POINTS_BY_ID.get(id);
+}
+
+/**
+ * Looks up the bundled places for a free-text destination such as
+ * "Goa, India", optionally narrowed to the given interest categories.
+ * Unknown destinations have no places.
+ */
+export function findPointsOfInterest(destination: string, categories: Interest[] = []): PointOfInterest[] {
+  const profile = findDestination(destination);
+  if (!profile.known) return [];
+  return POINTS_OF_INTEREST.filter(
+    (poi) =>
+      poi.destination === profile.name &&
+      (categories.length === 0 || poi.categories.some((category) => categories.includes(category)))
+  );
+}
+
+/**
+ * The opening hours that apply to a planned place: the dataset's for places
+ * it knows, otherwise whatever hours the model supplied, if any.
+ */
+export function placeOpeningHours(place: { poiId?: string; openingHours?: OpeningHoursRule[] }) {
+  const poi = place.poiId ? getPointOfInterest(place.poiId) : undefined;
+  return poi ? poi.openingHours : place.openingHours;
+}
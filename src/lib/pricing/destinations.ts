@@ -0,0 +1,58 @@
+import type { CostTier } from '@/lib/pricing/rates';
+import type { Region } from '@/lib/pricing/seasonality';
+
+export type DestinationProfile = {
+  name: string;
+  aliases: string[];
+  tier: CostTier;
+  region: Region;
+  /** The local currency, if known. */
+  currency?: string;
+};
+
+export const DESTINATIONS: DestinationProfile[] = [
+  { name: 'Goa', aliases: ['goa', 'panaji'], tier: 'budget', region: 'india', currency: 'INR' },
+  { name: 'Mumbai', aliases: ['mumbai', 'bombay'], tier: 'budget', region: 'india', currency: 'INR' },
+  { name: 'Delhi', aliases: ['delhi', 'new delhi'], tier: 'budget', region: 'india', currency: 'INR' },
+  { name: 'Jaipur', aliases: ['jaipur'], tier: 'budget', region: 'india', currency: 'INR' },
+  { name: 'Kerala', aliases: ['kerala', 'kochi', 'munnar'], tier: 'budget', region: 'india', currency: 'INR' },
+  { name: 'Bangkok', aliases: ['bangkok'], tier: 'budget', region: 'southeast-asia', currency: 'THB' },
+  { name: 'Bali', aliases: ['bali', 'ubud', 'seminyak'], tier: 'budget', region: 'southeast-asia', currency: 'IDR' },
+  { name: 'Hanoi', aliases: ['hanoi'], tier: 'budget', region: 'southeast-asia', currency: 'VND' },
+  { name: 'Lisbon', aliases: ['lisbon', 'lisboa'], tier: 'moderate', region: 'europe', currency: 'EUR' },
+  { name: 'Barcelona', aliases: ['barcelona'], tier: 'moderate', region: 'europe', currency: 'EUR' },
+  { name: 'Rome', aliases: ['rome', 'roma'], tier: 'moderate', region: 'europe', currency: 'EUR' },
+  { name: 'Cape Town', aliases: ['cape town'], tier: 'moderate', region: 'southern-hemisphere', currency: 'ZAR' },
+  { name: 'Dubai', aliases: ['dubai'], tier: 'expensive', region: 'middle-east', currency: 'AED' },
+  { name: 'Singapore', aliases: ['singapore'], tier: 'expensive', region: 'southeast-asia', currency: 'SGD' },
+  { name: 'Tokyo', aliases: ['tokyo'], tier: 'expensive', region: 'east-asia', currency: 'JPY' },
+  { name: 'Paris', aliases: ['paris'], tier: 'expensive', region: 'europe', currency: 'EUR' },
+  { name: 'London', aliases: ['london'], tier: 'expensive', region: 'europe', currency: 'GBP' },
+  { name: 'Sydney', aliases: ['sydney'], tier: 'expensive', region: 'southern-hemisphere', currency: 'AUD' },
+  { name: 'New York', aliases: ['new york', 'nyc', 'manhattan'], tier: 'premium', region: 'north-america', currency: 'USD' },
+  { name: 'Zurich', aliases: ['zurich', 'zürich'], tier: 'premium', region: 'europe', currency: 'CHF' },
+  { name: 'Reykjavik', aliases: ['reykjavik', 'iceland'], tier: 'premium', region: 'europe', currency: 'ISK' },
+];
+
+const UNKNOWN_DESTINATION: Omit<DestinationProfile, 'name'> = {
+  aliases: [],
+  tier: 'moderate',
+  region: 'default',
+};
+
+function mentions(query: string, alias: string): boolean {
+  return new RegExp(`(^|[^a-z])${alias}($|[^a-z])`).test(query);
+}
+
+/**
+ * Matches free-text destinations such as "Goa, India" against the known
+ * profiles. Unknown places fall back to a moderate, northern-hemisphere
+ * profile so predictions are always available.
+ */
+export function findDestination(destination: string): DestinationProfile & { known: boolean } {
+  const query = destination.trim().toLowerCase();
+  const match = DESTINATIONS.find((profile) => profile.aliases.some((alias) => mentions(query, alias)));
+  return match
+    ? { ...match, known: true }
+    : { ...UNKNOWN_DESTINATION, name: destination.trim(), known: false };
+}
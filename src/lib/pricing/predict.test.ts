@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+
+import { convertCurrency } from '@/lib/currency';
+import { isPriceableTrip, predictTripCost, type PricePredictionInput } from '@/lib/pricing/predict';
+import type { RateTable } from '@/lib/pricing/rates';
+
+/** Flat rates, so every figure below can be worked out by hand. */
+const rateTable: RateTable = {
+  version: 'test',
+  effectiveFrom: '2025-01-01',
+  currency: 'USD',
+  dailyRates: {
+    Low: {
+      accommodation: [5, 10],
+      transport: [5, 10],
+      food: [5, 10],
+      activities: [5, 10],
+      misc: [5, 10],
+    },
+    Medium: {
+      accommodation: [10, 20],
+      transport: [10, 20],
+      food: [10, 20],
+      activities: [10, 20],
+      misc: [10, 20],
+    },
+    Luxury: {
+      accommodation: [50, 100],
+      transport: [50, 100],
+      food: [50, 100],
+      activities: [50, 100],
+      misc: [50, 100],
+    },
+  },
+  roomOccupancy: 2,
+  tierMultipliers: { budget: 0.5, moderate: 1, expensive: 2, premium: 3 },
+  paceMultipliers: { Relaxed: {}, Balanced: {}, Intense: { activities: 2 } },
+  seasonMultipliers: { off: { accommodation: 0.5 }, shoulder: {}, peak: { accommodation: 2 } },
+};
+
+// Tuesday to Thursday in May, Lisbon's shoulder season, with no holiday or weekend night.
+const input: PricePredictionInput = {
+  stops: [{ destination: 'Lisbon, Portugal', days: 3 }],
+  startDate: '2030-05-07',
+  days: 3,
+  travelers: 2,
+  budget: 'Medium',
+  pace: 'Balanced',
+  currency: 'USD',
+};
+
+describe('predictTripCost', () => {
+  it('prices rooms per night and everything else per traveler per day', () => {
+    const prediction = predictTripCost(input, { rateTable });
+
+    expect(prediction).toMatchObject({
+      rateTableVersion: 'test',
+      currency: 'USD',
+      tier: 'moderate',
+      region: 'europe',
+      total: { low: 260, high: 520 },
+    });
+    expect(prediction.categories).toEqual([
+      { category: 'accommodation', low: 20, high: 40 },
+      { category: 'transport', low: 60, high: 120 },
+      { category: 'food', low: 60, high: 120 },
+      { category: 'activities', low: 60, high: 120 },
+      { category: 'misc', low: 60, high: 120 },
+    ]);
+    // The departure day has no night to pay for.
+    expect(prediction.days.map(({ date, low, high }) => ({ date, low, high }))).toEqual([
+      { date: '2030-05-07', low: 90, high: 180 },
+      { date: '2030-05-08', low: 90, high: 180 },
+      { date: '2030-05-09', low: 80, high: 160 },
+    ]);
+  });
+
+  it('books a room for every two travelers', () => {
+    const prediction = predictTripCost({ ...input, travelers: 3 }, { rateTable });
+
+    expect(prediction.categories[0]).toEqual({ category: 'accommodation', low: 40, high: 80 });
+  });
+
+  it('applies the pace, season, weekend and holiday multipliers', () => {
+    const intense = predictTripCost({ ...input, pace: 'Intense' }, { rateTable });
+    expect(intense.categories.find((c) => c.category === 'activities')).toMatchObject({ low: 120, high: 240 });
+
+    const peak = predictTripCost({ ...input, startDate: '2030-07-16' }, { rateTable });
+    expect(peak.days[0]).toMatchObject({ season: 'peak', low: 100, high: 200 });
+
+    // Friday night carries Europe's 20% weekend premium.
+    const weekend = predictTripCost({ ...input, startDate: '2030-05-10' }, { rateTable });
+    expect(weekend.days[0]).toMatchObject({ weekend: true, low: 92, high: 184 });
+
+    // New Year's Eve adds 35% to the night and the activities.
+    const newYear = predictTripCost({ ...input, startDate: '2030-12-31' }, { rateTable });
+    expect(newYear.days[0]).toMatchObject({ holiday: "New Year's Eve", low: 101, high: 201 });
+  });
+
+  it('prices each day at the stop it is spent at', () => {
+    const prediction = predictTripCost(
+      {
+        ...input,
+        stops: [
+          { destination: 'Lisbon, Portugal', days: 2 },
+          { destination: 'Tokyo, Japan', days: 1 },
+        ],
+      },
+      { rateTable }
+    );
+
+    // Tokyo's expensive tier doubles the last day; the tier reported is the first stop's.
+    expect(prediction.days[2]).toMatchObject({ low: 160, high: 320 });
+    expect(prediction.tier).toBe('moderate');
+  });
+
+  it('prices unknown places as a moderate destination', () => {
+    const prediction = predictTripCost({ ...input, stops: [{ destination: 'Atlantis', days: 3 }] }, { rateTable });
+
+    expect(prediction).toMatchObject({ tier: 'moderate', region: 'default' });
+  });
+
+  it('converts the prediction into the trip currency', () => {
+    const prediction = predictTripCost({ ...input, currency: 'EUR' }, { rateTable });
+
+    expect(prediction.currency).toBe('EUR');
+    expect(prediction.categories[1]).toEqual({
+      category: 'transport',
+      low: Math.round(convertCurrency(60, 'USD', 'EUR')),
+      high: Math.round(convertCurrency(120, 'USD', 'EUR')),
+    });
+  });
+
+  it('gives the same prediction for the same input with the current rate tables', () => {
+    expect(predictTripCost(input)).toEqual(predictTripCost({ ...input }));
+    expect(predictTripCost(input).rateTableVersion).toBe('2025.1');
+  });
+});
+
+describe('isPriceableTrip', () => {
+  it('needs named stops, days and travelers', () => {
+    expect(isPriceableTrip(input.stops, 3, 2)).toBe(true);
+    expect(isPriceableTrip([], 3, 2)).toBe(false);
+    expect(isPriceableTrip([{ destination: ' ', days: 3 }], 3, 2)).toBe(false);
+    expect(isPriceableTrip(input.stops, 0, 2)).toBe(false);
+    expect(isPriceableTrip(input.stops, 3, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import type { GeneratePersonalizedItineraryInput } from '@/ai/flows/generate-personalized-itinerary';
+import { COST_CATEGORIES, type CostCategory } from '@/lib/costs';
+import { convertCurrency } from '@/lib/currency';
+import { tripDates } from '@/lib/dates';
+import { findDestination } from '@/lib/pricing/destinations';
+import { stopForDay } from '@/lib/trip-stops';
+import { getRateTable, type CostTier, type RateTable, type Season } from '@/lib/pricing/rates';
+import { SEASONALITY_CALENDARS, dayPriceFactors, type DayPriceFactors, type Region } from '@/lib/pricing/seasonality';
+
+export type PricePredictionInput = Pick<
+  GeneratePersonalizedItineraryInput,
+  'stops' | 'startDate' | 'days' | 'travelers' | 'budget' | 'pace' | 'currency'
+>;
+
+export type PredictedCategory = {
+  category: CostCategory;
+  low: number;
+  high: number;
+};
+
+export type PredictedDay = {
+  date: string;
+  season: Season;
+  holiday?: string;
+  weekend: boolean;
+  low: number;
+  high: number;
+};
+
+export type PricePrediction = {
+  rateTableVersion: string;
+  currency: string;
+  /** The cost tier and region of the first stop. */
+  tier: CostTier;
+  region: Region;
+  /** Whole-group cost per category for the entire trip. */
+  categories: PredictedCategory[];
+  /** Whole-group cost of each day, including the night that starts on it. */
+  days: PredictedDay[];
+  total: { low: number; high: number };
+};
+
+export type PredictTripCostOptions = {
+  rateTable?: RateTable;
+};
+
+/** Whether the form holds enough of a trip to price it: named stops, days and travelers. */
+export function isPriceableTrip(stops: PricePredictionInput['stops'], days: number, travelers: number): boolean {
+  return (
+    stops.length > 0 &&
+    stops.every((stop) => stop.destination.trim() && stop.days >= 1) &&
+    days >= 1 &&
+    travelers >= 1
+  );
+}
+
+function dayMultiplier(category: CostCategory, factors: DayPriceFactors): number {
+  if (category === 'accommodation') return factors.accommodation;
+  if (category === 'activities') return factors.activities;
+  return 1;
+}
+
+/**
+ * Predicts the whole-group trip cost from the rate tables and each stop's
+ * cost tier and seasonality calendar, without consulting the model, in the
+ * input currency. The same input and rate table version always yield the same
+ * prediction.
+ */
+export function predictTripCost(
+  input: PricePredictionInput,
+  { rateTable = getRateTable() }: PredictTripCostOptions = {}
+): PricePrediction {
+  const travelers = Math.max(1, input.travelers);
+  const rooms = Math.ceil(travelers / rateTable.roomOccupancy);
+  const tripDays = tripDates(input.startDate, Math.max(1, input.days));
+  // The last day is the departure day, so it has no night to pay for.
+  const nights = Math.max(1, tripDays.length - 1);
+  const toInputCurrency = (amount: number) =>
+    Math.round(convertCurrency(amount, rateTable.currency, input.currency));
+
+  const totals = new Map<CostCategory, PredictedCategory>(
+    COST_CATEGORIES.map((category) => [category, { category, low: 0, high: 0 }])
+  );
+
+  const days = tripDays.map((date, index): PredictedDay => {
+    const destination = findDestination(stopForDay(input.stops, index + 1).destination);
+    const factors = dayPriceFactors(SEASONALITY_CALENDARS[destination.region], date);
+    let low = 0;
+    let high = 0;
+    for (const category of COST_CATEGORIES) {
+      const units =
+        category === 'accommodation' ? (index < nights ? rooms : 0) : travelers;
+      const factor =
+        rateTable.tierMultipliers[destination.tier] *
+        (rateTable.paceMultipliers[input.pace][category] ?? 1) *
+        (rateTable.seasonMultipliers[factors.season][category] ?? 1) *
+        dayMultiplier(category, factors);
+      const [rateLow, rateHigh] = rateTable.dailyRates[input.budget][category];
+      const total = totals.get(category)!;
+      total.low += rateLow * units * factor;
+      total.high += rateHigh * units * factor;
+      low += rateLow * units * factor;
+      high += rateHigh * units * factor;
+    }
+    return {
+      date,
+      season: factors.season,
+      holiday: factors.holiday,
+      weekend: factors.weekend,
+      low: toInputCurrency(low),
+      high: toInputCurrency(high),
+    };
+  });
+
+  const categories = COST_CATEGORIES.map((category) => {
+    const total = totals.get(category)!;
+    return { category, low: toInputCurrency(total.low), high: toInputCurrency(total.high) };
+  });
+
+  const firstStop = findDestination(input.stops[0]?.destination ?? '');
+  return {
+    rateTableVersion: rateTable.version,
+    currency: input.currency,
+    tier: firstStop.tier,
+    region: firstStop.region,
+    categories,
+    days,
+    total: {
+      low: categories.reduce((sum, c) => sum + c.low, 0),
+      high: categories.reduce((sum, c) => sum + c.high, 0),
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import type { GeneratePersonalizedItineraryInput } from '@/ai/flows/generate-personalized-itinerary';
+import type { CostCategory } from '@/lib/costs';
+
+export type BudgetLevel = GeneratePersonalizedItineraryInput['budget'];
+export type Pace = GeneratePersonalizedItineraryInput['pace'];
+export type CostTier = 'budget' | 'moderate' | 'expensive' | 'premium';
+export type Season = 'off' | 'shoulder' | 'peak';
+
+/** A [low, high] price range. */
+export type RateRange = [number, number];
+
+export type RateTable = {
+  version: string;
+  effectiveFrom: string;
+  currency: string;
+  /**
+   * Daily rates at a moderate-tier destination. Accommodation is per room per
+   * night; every other category is per person per day.
+   */
+  dailyRates: Record<BudgetLevel, Record<CostCategory, RateRange>>;
+  /** How many travelers share one room. */
+  roomOccupancy: number;
+  tierMultipliers: Record<CostTier, number>;
+  paceMultipliers: Record<Pace, Partial<Record<CostCategory, number>>>;
+  seasonMultipliers: Record<Season, Partial<Record<CostCategory, number>>>;
+};
+
+/**
+ * Rate tables are append-only: add a new version instead of editing a
+ * published one, so stored predictions can always be traced back.
+ */
+export const RATE_TABLES: Record<string, RateTable> = {
+  '2025.1': {
+    version: '2025.1',
+    effectiveFrom: '2025-01-01',
+    currency: 'USD',
+    dailyRates: {
+      Low: {
+        accommodation: [30, 60],
+        transport: [8, 15],
+        food: [15, 30],
+        activities: [10, 25],
+        misc: [5, 10],
+      },
+      Medium: {
+        accommodation: [80, 150],
+        transport: [15, 35],
+        food: [35, 60],
+        activities: [25, 50],
+        misc: [10, 20],
+      },
+      Luxury: {
+        accommodation: [250, 600],
+        transport: [50, 120],
+        food: [90, 180],
+        activities: [70, 150],
+        misc: [30, 60],
+      },
+    },
+    roomOccupancy: 2,
+    tierMultipliers: {
+      budget: 0.55,
+      moderate: 1,
+      expensive: 1.5,
+      premium: 2,
+    },
+    paceMultipliers: {
+      Relaxed: { transport: 0.8, activities: 0.7 },
+      Balanced: {},
+      Intense: { transport: 1.25, activities: 1.35 },
+    },
+    seasonMultipliers: {
+      off: { accommodation: 0.85, activities: 0.95 },
+      shoulder: {},
+      peak: { accommodation: 1.3, activities: 1.1 },
+    },
+  },
+};
+
+export const CURRENT_RATE_TABLE_VERSION = '2025.1';
+
+export function getRateTable(version: string = CURRENT_RATE_TABLE_VERSION): RateTable {
+  const table = RATE_TABLES[version];
+  if (!table) {
+    throw new Error(`Unknown rate table version: ${version}`);
+  }
+  return table;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import type { CostLineItem } from '@/ai/flows/generate-personalized-itinerary';
+import { summarizeCosts } from '@/lib/costs';
+import type { PricePrediction } from '@/lib/pricing/predict';
+import { reconcileCosts } from '@/lib/pricing/reconcile';
+
+const prediction: PricePrediction = {
+  rateTableVersion: 'test',
+  currency: 'USD',
+  tier: 'moderate',
+  region: 'europe',
+  categories: [
+    { category: 'accommodation', low: 400, high: 800 },
+    { category: 'transport', low: 100, high: 200 },
+    { category: 'food', low: 300, high: 600 },
+    { category: 'activities', low: 150, high: 300 },
+    { category: 'misc', low: 50, high: 100 },
+  ],
+  days: [],
+  total: { low: 1000, high: 2000 },
+};
+
+/** A whole-group estimate that matches the prediction's midpoints, with some categories overridden. */
+function estimate(amounts: Partial<Record<CostLineItem['category'], number>> = {}, currency = 'USD') {
+  const items = prediction.categories.map(({ category, low, high }): CostLineItem => {
+    const amount = amounts[category] ?? (low + high) / 2;
+    return { category, amount, currency, basis: 'perGroup', low: amount, high: amount };
+  });
+  return summarizeCosts(items, 2);
+}
+
+describe('reconcileCosts', () => {
+  it('accepts an estimate within the predicted range', () => {
+    expect(reconcileCosts(estimate(), prediction)).toMatchObject({
+      rateTableVersion: 'test',
+      predictedLow: 1000,
+      predictedHigh: 2000,
+      modelTotal: 1500,
+      deviation: 0,
+      flagged: false,
+      flaggedCategories: [],
+      message: 'The estimate is within our predicted range.',
+    });
+  });
+
+  it('only notes an estimate a little outside the range', () => {
+    const check = reconcileCosts(estimate({ accommodation: 1200 }), prediction);
+
+    expect(check.modelTotal).toBe(2100);
+    expect(check.deviation).toBeCloseTo(0.05);
+    expect(check).toMatchObject({ flagged: false, message: 'The estimate is close to our predicted range.' });
+  });
+
+  it('flags an estimate more than 35% above or below the range', () => {
+    // 2700 is exactly 35% above, which is still tolerated.
+    expect(reconcileCosts(estimate({ accommodation: 1800 }), prediction).flagged).toBe(false);
+
+    expect(reconcileCosts(estimate({ accommodation: 2100 }), prediction)).toMatchObject({
+      deviation: 0.5,
+      flagged: true,
+      message: 'The estimate is 50% above our predicted range.',
+    });
+    expect(reconcileCosts(estimate({ accommodation: 0, food: 0, activities: 0 }), prediction)).toMatchObject({
+      modelTotal: 225,
+      flagged: true,
+      message: 'The estimate is 78% below our predicted range.',
+    });
+  });
+
+  it('flags each category far outside its own range, even when the total is fine', () => {
+    const check = reconcileCosts(estimate({ transport: 20, misc: 200 }), prediction);
+
+    expect(check.flagged).toBe(false);
+    expect(check.flaggedCategories).toEqual(['transport', 'misc']);
+  });
+
+  it('counts a category the model left out as costing nothing', () => {
+    const summary = estimate();
+    summary.rows = summary.rows.filter((row) => row.category !== 'activities');
+
+    expect(reconcileCosts(summary, prediction).flaggedCategories).toEqual(['activities']);
+  });
+
+  it('takes a custom tolerance', () => {
+    expect(reconcileCosts(estimate({ accommodation: 1200 }), prediction, 0.01).flagged).toBe(true);
+  });
+
+  it('skips the comparison when the estimate is in another currency', () => {
+    expect(reconcileCosts(estimate({ accommodation: 5000 }, 'EUR'), prediction)).toMatchObject({
+      deviation: 0,
+      flagged: false,
+      flaggedCategories: [],
+      message: 'Skipped: the estimate is in EUR but the rate tables are in USD.',
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import type { CostCategory, CostSummary } from '@/lib/costs';
+import type { PredictedDay, PricePrediction } from '@/lib/pricing/predict';
+
+/** Relative distance outside the predicted range above which we warn. */
+export const DISAGREEMENT_TOLERANCE = 0.35;
+
+export type PriceCheck = {
+  rateTableVersion: string;
+  currency: string;
+  predictedLow: number;
+  predictedHigh: number;
+  modelTotal: number;
+  /** How far the model total lies outside the predicted range, as a fraction of the nearest bound. */
+  deviation: number;
+  flagged: boolean;
+  flaggedCategories: CostCategory[];
+  message: string;
+  /** The predicted cost of each itinerary day. */
+  days: PredictedDay[];
+};
+
+function deviationFrom(amount: number, low: number, high: number): number {
+  if (amount < low) return low > 0 ? (low - amount) / low : 0;
+  if (amount > high) return high > 0 ? (amount - high) / high : 1;
+  return 0;
+}
+
+/**
+ * Compares the model's cost summary with the rate-table prediction and flags
+ * the trip (and any individual category) that falls well outside it.
+ */
+export function reconcileCosts(
+  summary: CostSummary,
+  prediction: PricePrediction,
+  tolerance: number = DISAGREEMENT_TOLERANCE
+): PriceCheck {
+  const base = {
+    rateTableVersion: prediction.rateTableVersion,
+    currency: prediction.currency,
+    predictedLow: prediction.total.low,
+    predictedHigh: prediction.total.high,
+    modelTotal: summary.total.amount,
+    days: prediction.days,
+  };
+
+  if (summary.currency !== prediction.currency) {
+    return {
+      ...base,
+      deviation: 0,
+      flagged: false,
+      flaggedCategories: [],
+      message: `Skipped: the estimate is in ${summary.currency} but the rate tables are in ${prediction.currency}.`,
+    };
+  }
+
+  const deviation = deviationFrom(summary.total.amount, prediction.total.low, prediction.total.high);
+  const flaggedCategories = prediction.categories
+    .filter((predicted) => {
+      const row = summary.rows.find((r) => r.category === predicted.category);
+      const amount = row ? row.group.amount : 0;
+      return deviationFrom(amount, predicted.low, predicted.high) > tolerance;
+    })
+    .map((predicted) => predicted.category);
+  const flagged = deviation > tolerance;
+  const direction = summary.total.amount > prediction.total.high ? 'above' : 'below';
+
+  return {
+    ...base,
+    deviation,
+    flagged,
+    flaggedCategories,
+    message: flagged
+      ? `The estimate is ${Math.round(deviation * 100)}% ${direction} our predicted range.`
+      : deviation > 0
+        ? 'The estimate is close to our predicted range.'
+        : 'The estimate is within our predicted range.',
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { predictTripCost } from '@/lib/pricing/predict';
+import { findCheapestStartDate, priceBands, scanStartDates, type StartDateQuote } from '@/lib/pricing/scan';
+
+const trip = {
+  stops: [{ destination: 'Lisbon, Portugal', days: 3 }],
+  days: 3,
+  travelers: 2,
+  budget: 'Medium' as const,
+  pace: 'Balanced' as const,
+  currency: 'EUR' as const,
+};
+
+function quote(startDate: string, low: number, high: number): StartDateQuote {
+  return { startDate, currency: 'EUR', low, high };
+}
+
+describe('scanStartDates', () => {
+  it('predicts the trip for each consecutive start date', () => {
+    const quotes = scanStartDates(trip, '2030-05-30', 3);
+
+    expect(quotes.map((q) => q.startDate)).toEqual(['2030-05-30', '2030-05-31', '2030-06-01']);
+    const { total } = predictTripCost({ ...trip, startDate: '2030-05-31' });
+    expect(quotes[1]).toEqual({ startDate: '2030-05-31', currency: 'EUR', ...total });
+  });
+});
+
+describe('findCheapestStartDate', () => {
+  it('finds the cheapest start date in the weeks scanned', () => {
+    // Lisbon's peak season starts in June, so the cheapest start is before it.
+    const cheapest = findCheapestStartDate(trip, '2030-05-20', 2);
+    const quotes = scanStartDates(trip, '2030-05-20', 14);
+
+    expect(cheapest!.startDate < '2030-06-01').toBe(true);
+    expect(quotes.every((q) => q.low + q.high >= cheapest!.low + cheapest!.high)).toBe(true);
+  });
+
+  it('prefers the earliest of equally cheap dates', () => {
+    // Mondays to Wednesdays in the same season, with no weekend night, all cost the same.
+    expect(findCheapestStartDate(trip, '2030-05-06', 1)!.startDate).toBe('2030-05-06');
+  });
+
+  it('finds nothing when no weeks are scanned', () => {
+    expect(findCheapestStartDate(trip, '2030-05-06', 0)).toBeUndefined();
+  });
+});
+
+describe('priceBands', () => {
+  it('splits the quotes into thirds between the cheapest and the dearest', () => {
+    const bands = priceBands([
+      quote('2030-05-04', 250, 350),
+      quote('2030-05-01', 50, 150),
+      quote('2030-05-02', 100, 200),
+      quote('2030-05-03', 150, 250),
+    ]);
+
+    expect(Object.fromEntries(bands)).toEqual({
+      '2030-05-01': 'low',
+      '2030-05-02': 'low',
+      '2030-05-03': 'mid',
+      '2030-05-04': 'high',
+    });
+  });
+
+  it('calls every quote low when they all cost the same', () => {
+    const bands = priceBands([quote('2030-05-01', 100, 200), quote('2030-05-02', 100, 200)]);
+
+    expect([...bands.values()]).toEqual(['low', 'low']);
+  });
+
+  it('has no bands without quotes', () => {
+    expect(priceBands([]).size).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { addDays } from '@/lib/dates';
+import { predictTripCost, type PricePredictionInput } from '@/lib/pricing/predict';
+
+export type StartDateQuote = {
+  startDate: string;
+  currency: string;
+  low: number;
+  high: number;
+};
+
+/** Predicts the trip cost for each of `count` consecutive start dates. */
+export function scanStartDates(
+  input: Omit<PricePredictionInput, 'startDate'>,
+  from: string,
+  count: number
+): StartDateQuote[] {
+  return Array.from({ length: count }, (_, i) => {
+    const startDate = addDays(from, i);
+    const { currency, total } = predictTripCost({ ...input, startDate });
+    return { startDate, currency, low: total.low, high: total.high };
+  });
+}
+
+function midpoint(quote: StartDateQuote): number {
+  return (quote.low + quote.high) / 2;
+}
+
+/** The cheapest start date in the next `weeks` weeks, earliest first on ties. */
+export function findCheapestStartDate(
+  input: Omit<PricePredictionInput, 'startDate'>,
+  from: string,
+  weeks: number
+): StartDateQuote | undefined {
+  return scanStartDates(input, from, weeks * 7).reduce<StartDateQuote | undefined>(
+    (best, quote) => (!best || midpoint(quote) < midpoint(best) ? quote : best),
+    undefined
+  );
+}
+
+export type PriceBand = 'low' | 'mid' | 'high';
+
+/**
+ * Splits quotes into thirds by predicted cost so a calendar can colour them.
+ * When every quote costs the same they are all considered 'low'.
+ */
+export function priceBands(quotes: StartDateQuote[]): Map<string, PriceBand> {
+  const sorted = [...quotes].sort((a, b) => midpoint(a) - midpoint(b));
+  const cheapest = sorted.length ? midpoint(sorted[0]) : 0;
+  const dearest = sorted.length ? midpoint(sorted[sorted.length - 1]) : 0;
+  const step = (dearest - cheapest) / 3;
+
+  return new Map(
+    quotes.map((quote): [string, PriceBand] => {
+      const offset = midpoint(quote) - cheapest;
+      const band: PriceBand = step === 0 || offset < step ? 'low' : offset < step * 2 ? 'mid' : 'high';
+      return [quote.startDate, band];
+    })
+  );
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { SEASONALITY_CALENDARS, dayPriceFactors } from '@/lib/pricing/seasonality';
+
+const { europe, india } = SEASONALITY_CALENDARS;
+
+describe('dayPriceFactors', () => {
+  it('takes the season from the month and adds nothing on an ordinary weekday', () => {
+    expect(dayPriceFactors(europe, '2030-07-15')).toEqual({
+      season: 'peak',
+      holiday: undefined,
+      weekend: false,
+      accommodation: 1,
+      activities: 1,
+    });
+    expect(dayPriceFactors(europe, '2030-01-15').season).toBe('off');
+    expect(dayPriceFactors(india, '2030-01-15').season).toBe('peak');
+  });
+
+  it('charges the weekend premium for the nights the region treats as the weekend', () => {
+    expect(dayPriceFactors(europe, '2030-05-10')).toMatchObject({ weekend: true, accommodation: 1.2, activities: 1 });
+    expect(dayPriceFactors(europe, '2030-05-09')).toMatchObject({ weekend: false, accommodation: 1 });
+
+    const middleEast = SEASONALITY_CALENDARS['middle-east'];
+    expect(dayPriceFactors(middleEast, '2030-05-09')).toMatchObject({ weekend: true, accommodation: 1.15 });
+    expect(dayPriceFactors(middleEast, '2030-05-11')).toMatchObject({ weekend: false, accommodation: 1 });
+  });
+
+  it('marks up the night and the activities of a fixed-date holiday every year', () => {
+    expect(dayPriceFactors(europe, '2030-12-31')).toMatchObject({
+      holiday: "New Year's Eve",
+      weekend: false,
+      accommodation: 1.35,
+      activities: 1.35,
+    });
+  });
+
+  it('matches a moving holiday only in its own year', () => {
+    expect(dayPriceFactors(india, '2026-11-08')).toMatchObject({ holiday: 'Diwali', accommodation: 1.3 });
+    expect(dayPriceFactors(india, '2027-11-08').holiday).toBeUndefined();
+  });
+
+  it('combines a holiday with the weekend premium', () => {
+    const factors = dayPriceFactors(europe, '2027-12-24');
+
+    expect(factors).toMatchObject({ holiday: 'Christmas Eve', weekend: true, activities: 1.2 });
+    expect(factors.accommodation).toBeCloseTo(1.44);
+  });
+});
@@ -0,0 +1,150 @@
+import { monthOf, weekdayOf } from '@/lib/dates';
+import type { Season } from '@/lib/pricing/rates';
+
+export type Holiday = {
+  /** Either MM-DD for fixed-date holidays or YYYY-MM-DD for moving ones. */
+  date: string;
+  name: string;
+  multiplier: number;
+};
+
+export type SeasonalityCalendar = {
+  region: string;
+  /** The season of each month, January first. */
+  months: [Season, Season, Season, Season, Season, Season, Season, Season, Season, Season, Season, Season];
+  holidays: Holiday[];
+  /** Weekdays (0 = Sunday) whose night carries the weekend premium. */
+  weekendNights: number[];
+  weekendPremium: number;
+};
+
+export type Region = keyof typeof SEASONALITY_CALENDARS;
+
+const CHRISTMAS_AND_NEW_YEAR: Holiday[] = [
+  { date: '12-24', name: 'Christmas Eve', multiplier: 1.2 },
+  { date: '12-25', name: 'Christmas Day', multiplier: 1.2 },
+  { date: '12-31', name: "New Year's Eve", multiplier: 1.35 },
+  { date: '01-01', name: "New Year's Day", multiplier: 1.2 },
+];
+
+export const SEASONALITY_CALENDARS = {
+  default: {
+    region: 'default',
+    months: ['off', 'off', 'off', 'shoulder', 'shoulder', 'peak', 'peak', 'peak', 'shoulder', 'shoulder', 'off', 'peak'],
+    holidays: CHRISTMAS_AND_NEW_YEAR,
+    weekendNights: [5, 6],
+    weekendPremium: 1.15,
+  },
+  india: {
+    region: 'india',
+    months: ['peak', 'peak', 'shoulder', 'off', 'off', 'off', 'off', 'off', 'shoulder', 'shoulder', 'peak', 'peak'],
+    holidays: [
+      ...CHRISTMAS_AND_NEW_YEAR,
+      { date: '01-26', name: 'Republic Day', multiplier: 1.1 },
+      { date: '08-15', name: 'Independence Day', multiplier: 1.1 },
+      { date: '2025-10-20', name: 'Diwali', multiplier: 1.3 },
+      { date: '2026-03-04', name: 'Holi', multiplier: 1.2 },
+      { date: '2026-11-08', name: 'Diwali', multiplier: 1.3 },
+      { date: '2027-03-22', name: 'Holi', multiplier: 1.2 },
+      { date: '2027-10-29', name: 'Diwali', multiplier: 1.3 },
+    ],
+    weekendNights: [5, 6],
+    weekendPremium: 1.1,
+  },
+  'southeast-asia': {
+    region: 'southeast-asia',
+    months: ['peak', 'peak', 'shoulder', 'shoulder', 'off', 'off', 'shoulder', 'shoulder', 'off', 'off', 'shoulder', 'peak'],
+    holidays: [
+      ...CHRISTMAS_AND_NEW_YEAR,
+      { date: '04-13', name: 'Songkran', multiplier: 1.2 },
+      { date: '2026-02-17', name: 'Lunar New Year', multiplier: 1.25 },
+      { date: '2027-02-06', name: 'Lunar New Year', multiplier: 1.25 },
+    ],
+    weekendNights: [5, 6],
+    weekendPremium: 1.1,
+  },
+  europe: {
+    region: 'europe',
+    months: ['off', 'off', 'off', 'shoulder', 'shoulder', 'peak', 'peak', 'peak', 'shoulder', 'shoulder', 'off', 'shoulder'],
+    holidays: [
+      ...CHRISTMAS_AND_NEW_YEAR,
+      { date: '2026-04-05', name: 'Easter Sunday', multiplier: 1.2 },
+      { date: '2027-03-28', name: 'Easter Sunday', multiplier: 1.2 },
+    ],
+    weekendNights: [5, 6],
+    weekendPremium: 1.2,
+  },
+  'middle-east': {
+    region: 'middle-east',
+    months: ['peak', 'peak', 'peak', 'shoulder', 'off', 'off', 'off', 'off', 'off', 'shoulder', 'peak', 'peak'],
+    holidays: [
+      ...CHRISTMAS_AND_NEW_YEAR,
+      { date: '12-02', name: 'National Day', multiplier: 1.15 },
+    ],
+    weekendNights: [4, 5],
+    weekendPremium: 1.15,
+  },
+  'east-asia': {
+    region: 'east-asia',
+    months: ['off', 'off', 'peak', 'peak', 'shoulder', 'off', 'shoulder', 'shoulder', 'off', 'peak', 'peak', 'shoulder'],
+    holidays: [
+      ...CHRISTMAS_AND_NEW_YEAR,
+      { date: '04-29', name: 'Golden Week', multiplier: 1.3 },
+      { date: '05-03', name: 'Golden Week', multiplier: 1.3 },
+      { date: '05-04', name: 'Golden Week', multiplier: 1.3 },
+      { date: '05-05', name: 'Golden Week', multiplier: 1.3 },
+    ],
+    weekendNights: [5, 6],
+    weekendPremium: 1.2,
+  },
+  'north-america': {
+    region: 'north-america',
+    months: ['off', 'off', 'shoulder', 'shoulder', 'shoulder', 'peak', 'peak', 'peak', 'shoulder', 'shoulder', 'shoulder', 'peak'],
+    holidays: [
+      ...CHRISTMAS_AND_NEW_YEAR,
+      { date: '07-04', name: 'Independence Day', multiplier: 1.2 },
+      { date: '2026-11-26', name: 'Thanksgiving', multiplier: 1.25 },
+      { date: '2027-11-25', name: 'Thanksgiving', multiplier: 1.25 },
+    ],
+    weekendNights: [5, 6],
+    weekendPremium: 1.2,
+  },
+  'southern-hemisphere': {
+    region: 'southern-hemisphere',
+    months: ['peak', 'peak', 'shoulder', 'shoulder', 'off', 'off', 'off', 'off', 'shoulder', 'shoulder', 'shoulder', 'peak'],
+    holidays: CHRISTMAS_AND_NEW_YEAR,
+    weekendNights: [5, 6],
+    weekendPremium: 1.15,
+  },
+} satisfies Record<string, SeasonalityCalendar>;
+
+export type DayPriceFactors = {
+  season: Season;
+  holiday?: string;
+  weekend: boolean;
+  /** Extra multiplier for the night starting on this date. */
+  accommodation: number;
+  /** Extra multiplier for activities on this date. */
+  activities: number;
+};
+
+function holidayOn(calendar: SeasonalityCalendar, isoDate: string): Holiday | undefined {
+  return calendar.holidays.find((h) => h.date === isoDate || h.date === isoDate.slice(5));
+}
+
+/**
+ * Holiday and weekend multipliers for a single date. The season is returned
+ * separately because its multipliers live in the versioned rate tables.
+ */
+export function dayPriceFactors(calendar: SeasonalityCalendar, isoDate: string): DayPriceFactors {
+  const holiday = holidayOn(calendar, isoDate);
+  const weekend = calendar.weekendNights.includes(weekdayOf(isoDate));
+  const holidayMultiplier = holiday?.multiplier ?? 1;
+  return {
+    season: calendar.months[monthOf(isoDate) - 1],
+    holiday: holiday?.name,
+    weekend,
+    accommodation: holidayMultiplier * (weekend ? calendar.weekendPremium : 1),
+    activities: holidayMultiplier,
+  };
+}
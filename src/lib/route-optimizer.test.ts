@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ItineraryItem } from '@/ai/schemas';
+import { allowedSlots, optimizeDayRoute } from '@/lib/route-optimizer';
+
+/** Roughly one kilometre of latitude. */
+const KM = 1 / 111.2;
+
+function day(activities: Pick<ItineraryItem, 'morning' | 'afternoon' | 'evening'>, kmNorth: [number, number, number]): ItineraryItem {
+  return {
+    day: 1,
+    date: '2030-06-01',
+    ...activities,
+    subtotal: 100,
+    places: [
+      { slot: 'morning', name: 'A', lat: kmNorth[0] * KM, lng: 0 },
+      { slot: 'afternoon', name: 'B', lat: kmNorth[1] * KM, lng: 0 },
+      { slot: 'evening', name: 'C', lat: kmNorth[2] * KM, lng: 0 },
+    ],
+  };
+}
+
+const sights = { morning: 'Old town walk', afternoon: 'Museum visit', evening: 'Harbour stroll' };
+
+describe('allowedSlots', () => {
+  it('keeps meals in their meal slot', () => {
+    expect(allowedSlots('Breakfast at the market', 'afternoon')).toEqual(['morning']);
+    expect(allowedSlots('Lunch in Monti', 'morning')).toEqual(['afternoon']);
+    expect(allowedSlots('Dinner by the river', 'evening')).toEqual(['evening']);
+  });
+
+  it('pins activities with a fixed time', () => {
+    expect(allowedSlots('Sunrise at the viewpoint', 'morning')).toEqual(['morning']);
+    expect(allowedSlots('Flamenco show at 9:30', 'evening')).toEqual(['evening']);
+    expect(allowedSlots('Boat tour at 2 pm', 'afternoon')).toEqual(['afternoon']);
+  });
+
+  it('lets any other activity move freely', () => {
+    expect(allowedSlots('Museum visit', 'afternoon')).toEqual(['morning', 'afternoon', 'evening']);
+  });
+});
+
+describe('optimizeDayRoute', () => {
+  it('visits the stops in the order with the least distance', () => {
+    const route = optimizeDayRoute(day(sights, [0, 10, 1]));
+    expect(route.order).toEqual(['morning', 'evening', 'afternoon']);
+    expect(route.changed).toBe(true);
+    expect(route.distanceKm).toBeCloseTo(19, 0);
+    expect(route.optimizedDistanceKm).toBeCloseTo(10, 0);
+  });
+
+  it('keeps the current order when it is already the shortest', () => {
+    const route = optimizeDayRoute(day(sights, [0, 1, 10]));
+    expect(route).toMatchObject({ order: ['morning', 'afternoon', 'evening'], changed: false });
+    expect(route.optimizedDistanceKm).toBe(route.distanceKm);
+  });
+
+  it('never moves a meal out of its slot', () => {
+    const route = optimizeDayRoute(day({ ...sights, evening: 'Dinner by the harbour' }, [0, 10, 1]));
+    // Swapping morning and afternoon is the only legal change, and it shortens the route.
+    expect(route.order).toEqual(['afternoon', 'morning', 'evening']);
+    expect(route.optimizedDistanceKm).toBeLessThan(route.distanceKm);
+  });
+
+  it('never moves a fixed-time activity', () => {
+    const route = optimizeDayRoute(
+      day({ morning: 'Sunrise at the viewpoint', afternoon: 'Museum visit', evening: 'Concert at 8 pm' }, [0, 10, 1])
+    );
+    expect(route).toMatchObject({ order: ['morning', 'afternoon', 'evening'], changed: false });
+  });
+
+  it('never moves a place outside its opening hours', () => {
+    const museumDay = day(sights, [0, 10, 1]);
+    museumDay.places![1] = {
+      ...museumDay.places![1],
+      openingHours: [{ days: [0, 1, 2, 3, 4, 5, 6], open: '12:00', close: '17:00' }],
+    };
+    // The shortest routes visit the museum first or last, when it is closed.
+    expect(optimizeDayRoute(museumDay)).toMatchObject({ order: ['morning', 'afternoon', 'evening'], changed: false });
+    expect(optimizeDayRoute(day(sights, [0, 10, 1])).changed).toBe(true);
+  });
+
+  it('moves a meal planned in the wrong slot into its own', () => {
+    const route = optimizeDayRoute(day({ ...sights, morning: 'Dinner at a tapas bar' }, [0, 1, 2]));
+    expect(route.order[2]).toBe('morning');
+  });
+
+  it('only reorders the slots that have a stop', () => {
+    const twoStops: ItineraryItem = {
+      ...day(sights, [0, 0, 0]),
+      places: [
+        { slot: 'morning', name: 'A', lat: 0, lng: 0 },
+        { slot: 'evening', name: 'C', lat: 5 * KM, lng: 0 },
+      ],
+    };
+    expect(optimizeDayRoute(twoStops)).toMatchObject({ order: ['morning', 'evening'], changed: false });
+  });
+});
@@ -0,0 +1,98 @@
+import type { ItineraryItem } from '@/ai/schemas';
+import { haversineKm } from '@/lib/geo';
+import { ITINERARY_SLOTS, type ItinerarySlot } from '@/lib/itinerary';
+import { dayStops, type MapStop } from '@/lib/itinerary-map';
+import { isOpenDuring } from '@/lib/opening-hours';
+import { placeOpeningHours } from '@/lib/poi';
+
+export type RouteOptimization = {
+  /**
+   * The best visiting order, listed by the slot each stop occupies now: the
+   * n-th slot with a stop should host the activity currently in `order[n]`.
+   */
+  order: ItinerarySlot[];
+  /** The straight-line length of the current route, in kilometres. */
+  distanceKm: number;
+  /** The straight-line length of the route in `order`, in kilometres. */
+  optimizedDistanceKm: number;
+  /** Whether `order` differs from the current order. */
+  changed: boolean;
+};
+
+/** Meals stay in the slot they belong to, wherever they are planned. */
+const MEAL_SLOTS: [RegExp, ItinerarySlot][] = [
+  [/\bbreakfast\b/i, 'morning'],
+  [/\b(lunch|brunch)\b/i, 'afternoon'],
+  [/\b(dinner|supper)\b/i, 'evening'],
+];
+
+/**
+ * Activities tied to a time of day (a clock time, sunrise or sunset, or a
+ * scheduled show) cannot be moved to another slot.
+ */
+const FIXED_TIME_PATTERN =
+  /\b(\d{1,2}(:\d{2})?\s?(am|pm)|\d{1,2}:\d{2}|sunrise|sunset|show|performance|concert|tickets? for)\b/i;
+
+/** The slots an activity may be moved to, or all of them if it is unconstrained. */
+export function allowedSlots(activity: string, slot: ItinerarySlot): readonly ItinerarySlot[] {
+  const meal = MEAL_SLOTS.find(([pattern]) => pattern.test(activity));
+  if (meal) return [meal[1]];
+  if (FIXED_TIME_PATTERN.test(activity)) return [slot];
+  return ITINERARY_SLOTS;
+}
+
+/**
+ * Whether the activity now in `from` may be moved to `to`: the slot must suit
+ * the activity, and its place must be open then on the day's date.
+ */
+function canMove(day: ItineraryItem, from: ItinerarySlot, to: ItinerarySlot): boolean {
+  if (!allowedSlots(day[from], from).includes(to)) return false;
+  return (day.places ?? [])
+    .filter((place) => place.slot === from)
+    .every((place) => {
+      const hours = placeOpeningHours(place);
+      return !hours || isOpenDuring(hours, day.date, to);
+    });
+}
+
+function routeLength(stops: MapStop[]): number {
+  return stops.slice(1).reduce((sum, stop, i) => sum + haversineKm(stops[i], stop), 0);
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest])
+  );
+}
+
+/**
+ * Finds the order of a day's stops with the shortest total distance that
+ * keeps meals in their meal slot, fixed-time activities where they are and
+ * every place inside its opening hours.
+ * Only slots with a stop take part. A day has at most three stops, so every
+ * order is tried; ties keep the current order. If no order satisfies the
+ * constraints (two dinners, say), the day is left as it is.
+ */
+export function optimizeDayRoute(day: ItineraryItem): RouteOptimization {
+  const stops = dayStops(day);
+  const stopSlots = stops.map((stop) => stop.slot);
+  const distanceKm = routeLength(stops);
+
+  // The first permutation is the current order, so strict comparison keeps it on ties.
+  const best = permutations(stops)
+    .filter((order) => order.every((stop, i) => canMove(day, stop.slot, stopSlots[i])))
+    .map((order) => ({ order, length: routeLength(order) }))
+    .reduce<{ order: MapStop[]; length: number } | undefined>(
+      (shortest, candidate) => (!shortest || candidate.length < shortest.length - 1e-9 ? candidate : shortest),
+      undefined
+    ) ?? { order: stops, length: distanceKm };
+
+  const order = best.order.map((stop) => stop.slot);
+  return {
+    order,
+    distanceKm,
+    optimizedDistanceKm: best.length,
+    changed: order.some((slot, i) => slot !== stopSlots[i]),
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ItineraryItem } from '@/ai/schemas';
+import { haversineKm } from '@/lib/geo';
+import { MAX_TRANSIT_MINUTES, dayFeasibility, reorderDay, travelLeg } from '@/lib/travel';
+
+/** Roughly one kilometre of latitude. */
+const KM = 1 / 111.2;
+
+function day(places: ItineraryItem['places']): ItineraryItem {
+  return {
+    day: 1,
+    date: '2030-06-01',
+    morning: 'Old town walk',
+    afternoon: 'Museum visit',
+    evening: 'Riverside stroll',
+    subtotal: 100,
+    places,
+  };
+}
+
+// Morning and evening are next to each other; the afternoon is 10 km away.
+const zigZag = day([
+  { slot: 'morning', name: 'Old Town', lat: 0, lng: 0 },
+  { slot: 'afternoon', name: 'Museum', lat: 10 * KM, lng: 0 },
+  { slot: 'evening', name: 'Riverside', lat: 1 * KM, lng: 0 },
+]);
+
+describe('haversineKm', () => {
+  it('measures great-circle distances', () => {
+    const paris = { lat: 48.8566, lng: 2.3522 };
+    const london = { lat: 51.5074, lng: -0.1278 };
+    expect(haversineKm(paris, london)).toBeCloseTo(344, -1);
+    expect(haversineKm(paris, paris)).toBe(0);
+  });
+});
+
+describe('travelLeg', () => {
+  it('walks short legs and takes transit for long ones', () => {
+    const from = { day: 1, slot: 'morning' as const, name: 'A', lat: 0, lng: 0 };
+    expect(travelLeg(from, { ...from, slot: 'afternoon', lat: 1 * KM })).toMatchObject({
+      mode: 'walk',
+      distanceKm: 1.3,
+      minutes: 17,
+    });
+    expect(travelLeg(from, { ...from, slot: 'afternoon', lat: 10 * KM })).toMatchObject({
+      mode: 'transit',
+      distanceKm: 13,
+      minutes: 49,
+    });
+  });
+});
+
+describe('dayFeasibility', () => {
+  it('adds up the legs between consecutive stops', () => {
+    const feasibility = dayFeasibility(zigZag, 'Relaxed');
+    expect(feasibility.legs.map((leg) => [leg.from, leg.to])).toEqual([
+      ['morning', 'afternoon'],
+      ['afternoon', 'evening'],
+    ]);
+    expect(feasibility.totalMinutes).toBe(feasibility.legs[0].minutes + feasibility.legs[1].minutes);
+    expect(feasibility.limitMinutes).toBe(MAX_TRANSIT_MINUTES.Relaxed);
+    expect(feasibility.feasible).toBe(true);
+  });
+
+  it('holds an intense day to a tighter transit budget', () => {
+    expect(dayFeasibility(zigZag, 'Intense').feasible).toBe(false);
+  });
+
+  it('suggests the visiting order with the least travel', () => {
+    const feasibility = dayFeasibility(zigZag, 'Balanced');
+    expect(feasibility.suggestedOrder).toEqual(['morning', 'evening', 'afternoon']);
+    expect(feasibility.savedMinutes).toBeGreaterThan(30);
+  });
+
+  it('does not suggest reordering a day that is already in a good order', () => {
+    const feasibility = dayFeasibility(reorderDay(zigZag, ['morning', 'evening', 'afternoon']), 'Balanced');
+    expect(feasibility.suggestedOrder).toBeUndefined();
+  });
+
+  it('has no legs for a day without places', () => {
+    expect(dayFeasibility(day(undefined), 'Balanced')).toMatchObject({ legs: [], totalMinutes: 0, feasible: true });
+  });
+});
+
+describe('reorderDay', () => {
+  it('moves activities and places into the new order', () => {
+    const reordered = reorderDay(zigZag, ['morning', 'evening', 'afternoon']);
+    expect([reordered.morning, reordered.afternoon, reordered.evening]).toEqual([
+      'Old town walk',
+      'Riverside stroll',
+      'Museum visit',
+    ]);
+    expect(reordered.places?.map((place) => [place.slot, place.name])).toEqual([
+      ['morning', 'Old Town'],
+      ['evening', 'Museum'],
+      ['afternoon', 'Riverside'],
+    ]);
+  });
+
+  it('leaves slots without a stop where they are', () => {
+    const twoStops = day([
+      { slot: 'morning', name: 'Old Town', lat: 0, lng: 0 },
+      { slot: 'evening', name: 'Riverside', lat: 1 * KM, lng: 0 },
+    ]);
+    const reordered = reorderDay(twoStops, ['evening', 'morning']);
+    expect([reordered.morning, reordered.afternoon, reordered.evening]).toEqual([
+      'Riverside stroll',
+      'Museum visit',
+      'Old town walk',
+    ]);
+  });
+});
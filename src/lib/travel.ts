@@ -0,0 +1,116 @@
+import type { ItineraryItem } from '@/ai/schemas';
+import { haversineKm } from '@/lib/geo';
+import { ITINERARY_SLOTS, type ItinerarySlot } from '@/lib/itinerary';
+import { dayStops, type MapStop } from '@/lib/itinerary-map';
+import type { Pace } from '@/lib/pricing/rates';
+import { optimizeDayRoute } from '@/lib/route-optimizer';
+
+export type TravelMode = 'walk' | 'transit';
+
+export type TravelLeg = {
+  from: ItinerarySlot;
+  to: ItinerarySlot;
+  /** Estimated road distance, in kilometres. */
+  distanceKm: number;
+  minutes: number;
+  mode: TravelMode;
+};
+
+export type DayFeasibility = {
+  day: number;
+  legs: TravelLeg[];
+  totalMinutes: number;
+  limitMinutes: number;
+  feasible: boolean;
+  /**
+   * The route optimiser's order for the day's stops, listed by the slot each
+   * stop currently occupies. Only given when it saves meaningful time.
+   */
+  suggestedOrder?: ItinerarySlot[];
+  savedMinutes?: number;
+};
+
+/** Roads are rarely straight; this turns straight-line distance into a road estimate. */
+export const ROAD_DISTANCE_FACTOR = 1.3;
+
+/** Legs up to this road distance are walked. */
+export const MAX_WALKING_KM = 1.5;
+
+const WALKING_KMH = 4.5;
+const TRANSIT_KMH = 20;
+/** Waiting, parking and getting to the stop, added to every transit leg. */
+const TRANSIT_OVERHEAD_MINUTES = 10;
+
+/**
+ * How much time a day may spend moving between activities. An intense day
+ * has the least slack between activities, so it tolerates the least transit.
+ */
+export const MAX_TRANSIT_MINUTES: Record<Pace, number> = {
+  Relaxed: 120,
+  Balanced: 90,
+  Intense: 60,
+};
+
+/** Reordering is only suggested when it saves at least this much. */
+export const MIN_REORDER_SAVING_MINUTES = 10;
+
+export function travelLeg(from: MapStop, to: MapStop): TravelLeg {
+  const distanceKm = haversineKm(from, to) * ROAD_DISTANCE_FACTOR;
+  const mode: TravelMode = distanceKm <= MAX_WALKING_KM ? 'walk' : 'transit';
+  const minutes =
+    mode === 'walk'
+      ? (distanceKm / WALKING_KMH) * 60
+      : (distanceKm / TRANSIT_KMH) * 60 + TRANSIT_OVERHEAD_MINUTES;
+  return { from: from.slot, to: to.slot, distanceKm: Math.round(distanceKm * 10) / 10, minutes: Math.round(minutes), mode };
+}
+
+function legsBetween(stops: MapStop[]): TravelLeg[] {
+  return stops.slice(1).map((stop, i) => travelLeg(stops[i], stop));
+}
+
+function totalMinutes(legs: TravelLeg[]): number {
+  return legs.reduce((sum, leg) => sum + leg.minutes, 0);
+}
+
+/**
+ * Estimates the travel between consecutive stops of a day and flags the day
+ * if it exceeds the pace's transit budget. Suggests the route optimiser's
+ * order when it saves meaningful travel time.
+ */
+export function dayFeasibility(day: ItineraryItem, pace: Pace): DayFeasibility {
+  const legs = legsBetween(dayStops(day));
+  const total = totalMinutes(legs);
+  const limitMinutes = MAX_TRANSIT_MINUTES[pace];
+
+  const route = optimizeDayRoute(day);
+  const savedMinutes = route.changed ? total - totalMinutes(legsBetween(dayStops(reorderDay(day, route.order)))) : 0;
+
+  return {
+    day: day.day,
+    legs,
+    totalMinutes: total,
+    limitMinutes,
+    feasible: total <= limitMinutes,
+    ...(savedMinutes >= MIN_REORDER_SAVING_MINUTES && {
+      suggestedOrder: route.order,
+      savedMinutes,
+    }),
+  };
+}
+
+/**
+ * Visits the day's stops in `order` (listed by the slot each stop occupies
+ * now): the n-th slot with a stop takes over the activity and place of
+ * `order[n]`. Slots without a stop keep their activity.
+ */
+export function reorderDay(day: ItineraryItem, order: ItinerarySlot[]): ItineraryItem {
+  const stopSlots = ITINERARY_SLOTS.filter((slot) => order.includes(slot));
+  const reordered: ItineraryItem = { ...day };
+  stopSlots.forEach((slot, i) => {
+    reordered[slot] = day[order[i]];
+  });
+  reordered.places = day.places?.map((place) =>
+    order.includes(place.slot) ? { ...place, slot: stopSlots[order.indexOf(place.slot)] } : place
+  );
+  return reordered;
+}
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { itineraryOutputFixture } from '@/ai/plugins/mock-fixtures';
+import type { GeneratePersonalizedItineraryInput, GeneratePersonalizedItineraryOutput } from '@/ai/schemas';
+import {
+  MAX_TRIP_VERSIONS,
+  TRIP_LIBRARY_KEY,
+  createSavedTrip,
+  deleteTrip,
+  duplicateTrip,
+  readTripLibrary,
+  renameTrip,
+  restoreTripVersion,
+  saveTrip,
+  updateTripItinerary,
+  updateTripLedger,
+  writeTripLibrary,
+} from '@/lib/trip-library';
+
+const input: GeneratePersonalizedItineraryInput = {
+  stops: [
+    { destination: 'Mumbai, India', days: 1 },
+    { destination: 'Goa, India', days: 2 },
+  ],
+  startDate: '2030-12-20',
+  days: 3,
+  budget: 'Medium',
+  travelers: 2,
+  currency: 'INR',
+  interests: 'Beaches, Food',
+  pace: 'Balanced',
+};
+
+function output(): GeneratePersonalizedItineraryOutput {
+  return itineraryOutputFixture(input);
+}
+
+const saved = new Date('2030-01-01T10:00:00Z');
+const later = new Date('2030-01-02T10:00:00Z');
+
+describe('trip library', () => {
+  it('names a new trip after its stops and stamps it with the time', () => {
+    const trip = createSavedTrip(input, output(), saved);
+    expect(trip).toMatchObject({
+      name: 'Mumbai, India → Goa, India',
+      createdAt: '2030-01-01T10:00:00.000Z',
+      updatedAt: '2030-01-01T10:00:00.000Z',
+      input,
+      versions: [{ number: 1, createdAt: '2030-01-01T10:00:00.000Z', itinerary: trip.itinerary }],
+    });
+    expect(trip.id).not.toBe(createSavedTrip(input, output(), saved).id);
+  });
+
+  it('keeps the most recently changed trip first', () => {
+    const first = createSavedTrip(input, output(), saved);
+    const second = createSavedTrip(input, output(), saved);
+    let trips = saveTrip(saveTrip([], first), second);
+    expect(trips.map((t) => t.id)).toEqual([second.id, first.id]);
+
+    const edited = { ...output(), summary: 'A slower trip.' };
+    trips = updateTripItinerary(trips, first.id, edited, later);
+    expect(trips.map((t) => t.id)).toEqual([first.id, second.id]);
+    expect(trips[0]).toMatchObject({ itinerary: edited, createdAt: first.createdAt, updatedAt: later.toISOString() });
+  });
+
+  it('keeps every itinerary of a trip as a version', () => {
+    const trip = createSavedTrip(input, output(), saved);
+    const edited = { ...output(), summary: 'A slower trip.' };
+    let trips = updateTripItinerary([trip], trip.id, edited, later);
+    expect(trips[0].versions.map((v) => [v.number, v.itinerary.summary, v.createdAt])).toEqual([
+      [1, trip.itinerary.summary, saved.toISOString()],
+      [2, 'A slower trip.', later.toISOString()],
+    ]);
+
+    trips = restoreTripVersion(trips, trip.id, 1, later);
+    expect(trips[0].itinerary).toEqual(trip.itinerary);
+    expect(trips[0].versions).toHaveLength(3);
+    expect(trips[0].versions[2]).toMatchObject({ number: 3, restoredFrom: 1, itinerary: trip.itinerary });
+    expect(restoreTripVersion(trips, trip.id, 9, later)).toBe(trips);
+  });
+
+  it('drops the oldest versions beyond the limit but keeps numbering', () => {
+    let trips = [createSavedTrip(input, output(), saved)];
+    for (let i = 0; i < MAX_TRIP_VERSIONS; i++) {
+      trips = updateTripItinerary(trips, trips[0].id, { ...output(), summary: `Edit ${i + 1}` }, later);
+    }
+    const numbers = trips[0].versions.map((v) => v.number);
+    expect(numbers).toHaveLength(MAX_TRIP_VERSIONS);
+    expect(numbers[0]).toBe(2);
+    expect(numbers[numbers.length - 1]).toBe(MAX_TRIP_VERSIONS + 1);
+  });
+
+  it('renames, duplicates and deletes trips', () => {
+    const trip = createSavedTrip(input, output(), saved);
+    let trips = renameTrip([trip], trip.id, '  Winter in India ');
+    expect(trips[0].name).toBe('Winter in India');
+    expect(renameTrip(trips, trip.id, '   ')).toBe(trips);
+
+    trips = duplicateTrip(trips, trip.id, later);
+    expect(trips).toHaveLength(2);
+    expect(trips[0]).toMatchObject({ name: 'Winter in India (copy)', input, createdAt: later.toISOString() });
+    expect(trips[0].id).not.toBe(trip.id);
+
+    expect(deleteTrip(trips, trip.id).map((t) => t.name)).toEqual(['Winter in India (copy)']);
+  });
+
+  it('keeps the expense ledger with the trip without adding a version', () => {
+    const other = createSavedTrip(input, output(), saved);
+    const trip = createSavedTrip(input, output(), saved);
+    const ledger = {
+      travelers: [{ id: 'traveler-1', name: 'Ada' }],
+      entries: [{ id: 'e1', description: 'Food', amount: 40, paidBy: 'traveler-1', splitAmong: ['traveler-1'] }],
+    };
+
+    const trips = updateTripLedger([trip, other], trip.id, ledger);
+
+    expect(trips[0]).toEqual({ ...trip, ledger });
+    expect(trips[1]).toBe(other);
+  });
+
+  describe('in storage', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('reads back what it wrote', () => {
+      const trips = [createSavedTrip(input, output(), saved)];
+      expect(writeTripLibrary(localStorage, trips)).toBe(trips);
+      expect(readTripLibrary(localStorage)).toEqual(trips);
+    });
+
+    it('gives trips saved before versions their itinerary as the first version', () => {
+      const { versions, ...trip } = createSavedTrip(input, output(), saved);
+      localStorage.setItem(TRIP_LIBRARY_KEY, JSON.stringify([trip]));
+      expect(readTripLibrary(localStorage)[0].versions).toEqual(versions);
+    });
+
+    /** localStorage that holds no more than `limit` characters per item. */
+    function limitedStorage(limit: number): Storage {
+      return {
+        get length() {
+          return localStorage.length;
+        },
+        clear: () => localStorage.clear(),
+        getItem: (key) => localStorage.getItem(key),
+        key: (index) => localStorage.key(index),
+        removeItem: (key) => localStorage.removeItem(key),
+        setItem: (key, value) => {
+          if (value.length > limit) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+          localStorage.setItem(key, value);
+        },
+      };
+    }
+
+    it('drops the oldest versions of any trip until the library fits', () => {
+      const latest = new Date('2030-01-03T10:00:00Z');
+      const first = createSavedTrip(input, output(), saved);
+      const second = createSavedTrip(input, output(), later);
+      let trips = saveTrip(saveTrip([], first), second);
+      trips = updateTripItinerary(trips, first.id, { ...output(), summary: 'Edited' }, latest);
+      trips = updateTripItinerary(trips, second.id, { ...output(), summary: 'Edited' }, latest);
+      const fitting = trips.map((trip) => (trip.id === first.id ? { ...trip, versions: trip.versions.slice(1) } : trip));
+
+      const stored = writeTripLibrary(limitedStorage(JSON.stringify(fitting).length), trips);
+      expect(stored).toEqual(fitting);
+      expect(readTripLibrary(localStorage)).toEqual(fitting);
+    });
+
+    it('gives up when the trips do not fit even with only their current versions', () => {
+      const trips = [createSavedTrip(input, output(), saved)];
+
+      expect(() => writeTripLibrary(limitedStorage(10), trips)).toThrow('The quota has been exceeded.');
+      expect(readTripLibrary(localStorage)).toEqual([]);
+    });
+
+    it('reads a missing or corrupt library as empty', () => {
+      expect(readTripLibrary(localStorage)).toEqual([]);
+      localStorage.setItem(TRIP_LIBRARY_KEY, '{not json');
+      expect(readTripLibrary(localStorage)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import type { GeneratePersonalizedItineraryInput, GeneratePersonalizedItineraryOutput } from '@/ai/schemas';
+import type { Ledger } from '@/lib/ledger';
+import { tripTitle } from '@/lib/trip-stops';
+
+/** One itinerary a trip has had, as generated or after an edit. */
+export type TripVersion = {
+  /** Numbered from 1 in the order the versions were saved. */
+  number: number;
+  createdAt: string;
+  itinerary: GeneratePersonalizedItineraryOutput;
+  /** The number of the older version this one brought back, if it is a restore. */
+  restoredFrom?: number;
+};
+
+/** A generated itinerary kept in the trip library with the request that produced it. */
+export type SavedTrip = {
+  id: string;
+  name: string;
+  /** ISO timestamps of when the trip was first saved and last changed. */
+  createdAt: string;
+  updatedAt: string;
+  input: GeneratePersonalizedItineraryInput;
+  /** The itinerary on show, which is always that of the newest version. */
+  itinerary: GeneratePersonalizedItineraryOutput;
+  /** The itineraries the trip has had, oldest first. */
+  versions: TripVersion[];
+  /** The ID of the trip in the signed-in user's account, once it is saved there. */
+  remoteId?: string;
+  /** The travelers' shared expenses, once any are recorded. */
+  ledger?: Ledger;
+};
+
+export const TRIP_LIBRARY_KEY = 'trip_library';
+
+/**
+ * How many versions a trip keeps in the browser; older ones are dropped to
+ * stay within the storage quota. Trips in an account keep every version.
+ */
+export const MAX_TRIP_VERSIONS = 20;
+
+/**
+ * Reads the saved trips from `storage`; a missing or corrupt library reads as
+ * empty. Trips saved before trips had versions get their itinerary as the
+ * first one.
+ */
+export function readTripLibrary(storage: Storage): SavedTrip[] {
+  const saved = storage.getItem(TRIP_LIBRARY_KEY);
+  if (!saved) return [];
+  try {
+    const trips = JSON.parse(saved);
+    if (!Array.isArray(trips)) return [];
+    return trips.map((trip: SavedTrip) =>
+      trip.versions?.length
+        ? trip
+        : { ...trip, versions: [{ number: 1, createdAt: trip.updatedAt, itinerary: trip.itinerary }] }
+    );
+  } catch {
+    return [];
+  }
+}
+
+function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+/** Drops the oldest version no trip has on show, or returns null when none is left to drop. */
+function withoutOldestVersion(trips: SavedTrip[]): SavedTrip[] | null {
+  let oldest = -1;
+  for (const [index, trip] of trips.entries()) {
+    if (trip.versions.length < 2) continue;
+    if (oldest < 0 || trip.versions[0].createdAt < trips[oldest].versions[0].createdAt) oldest = index;
+  }
+  if (oldest < 0) return null;
+  return trips.map((trip, index) => (index === oldest ? { ...trip, versions: trip.versions.slice(1) } : trip));
+}
+
+/**
+ * Writes the saved trips to `storage` and returns what was written. When the
+ * storage quota is exceeded, the oldest versions are dropped until the library
+ * fits; if it does not fit with only the versions on show, the error is thrown.
+ */
+export function writeTripLibrary(storage: Storage, trips: SavedTrip[]): SavedTrip[] {
+  try {
+    storage.setItem(TRIP_LIBRARY_KEY, JSON.stringify(trips));
+    return trips;
+  } catch (error) {
+    const trimmed = isQuotaExceeded(error) ? withoutOldestVersion(trips) : null;
+    if (!trimmed) throw error;
+    return writeTripLibrary(storage, trimmed);
+  }
+}
+
+/** A new library entry for a freshly generated itinerary, named after its stops. */
+export function createSavedTrip(
+  input: GeneratePersonalizedItineraryInput,
+  itinerary: GeneratePersonalizedItineraryOutput,
+  now = new Date()
+): SavedTrip {
+  const timestamp = now.toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: tripTitle(input.stops),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    input,
+    itinerary,
+    versions: [{ number: 1, createdAt: timestamp, itinerary }],
+  };
+}
+
+/**
+ * Adds `trip` to the library, or replaces the entry with its ID. The most
+ * recently changed trip comes first.
+ */
+export function saveTrip(trips: SavedTrip[], trip: SavedTrip): SavedTrip[] {
+  return [trip, ...trips.filter((t) => t.id !== trip.id)];
+}
+
+function addVersion(
+  trip: SavedTrip,
+  itinerary: GeneratePersonalizedItineraryOutput,
+  now: Date,
+  restoredFrom?: number
+): SavedTrip {
+  const createdAt = now.toISOString();
+  const number = trip.versions[trip.versions.length - 1].number + 1;
+  const version: TripVersion = { number, createdAt, itinerary, ...(restoredFrom && { restoredFrom }) };
+  return {
+    ...trip,
+    itinerary,
+    updatedAt: createdAt,
+    versions: [...trip.versions, version].slice(-MAX_TRIP_VERSIONS),
+  };
+}
+
+/**
+ * Shows a new itinerary for a saved trip, for example after a day is
+ * regenerated, keeping the one it replaces as an older version.
+ */
+export function updateTripItinerary(
+  trips: SavedTrip[],
+  id: string,
+  itinerary: GeneratePersonalizedItineraryOutput,
+  now = new Date()
+): SavedTrip[] {
+  const trip = trips.find((t) => t.id === id);
+  return trip ? saveTrip(trips, addVersion(trip, itinerary, now)) : trips;
+}
+
+/**
+ * Brings back the itinerary of an older version. It is saved as the newest
+ * version rather than discarding the ones after it, so a restore can be undone.
+ */
+export function restoreTripVersion(trips: SavedTrip[], id: string, number: number, now = new Date()): SavedTrip[] {
+  const trip = trips.find((t) => t.id === id);
+  const version = trip?.versions.find((v) => v.number === number);
+  return trip && version ? saveTrip(trips, addVersion(trip, version.itinerary, now, number)) : trips;
+}
+
+/** Renames a saved trip in place; a blank name leaves it unchanged. */
+export function renameTrip(trips: SavedTrip[], id: string, name: string): SavedTrip[] {
+  const trimmed = name.trim();
+  if (!trimmed) return trips;
+  return trips.map((t) => (t.id === id ? { ...t, name: trimmed } : t));
+}
+
+/** Keeps the expense ledger with a saved trip; like a rename, it is not a new version. */
+export function updateTripLedger(trips: SavedTrip[], id: string, ledger: Ledger): SavedTrip[] {
+  return trips.map((t) => (t.id === id ? { ...t, ledger } : t));
+}
+
+/** Copies a saved trip under a new ID, placing the copy first. The copy is not in any account. */
+export function duplicateTrip(trips: SavedTrip[], id: string, now = new Date()): SavedTrip[] {
+  const trip = trips.find((t) => t.id === id);
+  if (!trip) return trips;
+  const timestamp = now.toISOString();
+  return [
+    {
+      ...trip,
+      id: crypto.randomUUID(),
+      name: `${trip.name} (copy)`,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      remoteId: undefined,
+    },
+    ...trips,
+  ];
+}
+
+export function deleteTrip(trips: SavedTrip[], id: string): SavedTrip[] {
+  return trips.filter((t) => t.id !== id);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeStop, fitStopsToDays, isSameStop, scheduleStops, stopForDay, totalDays, tripTitle } from '@/lib/trip-stops';
+
+const stops = [
+  { destination: 'Mumbai, India', days: 3 },
+  { destination: 'Goa, India', days: 1 },
+  { destination: 'Kerala, India', days: 2 },
+];
+
+describe('scheduleStops', () => {
+  it('lays the stops end to end, across a month boundary', () => {
+    expect(scheduleStops(stops, '2030-03-29')).toEqual([
+      { ...stops[0], firstDay: 1, lastDay: 3, startDate: '2030-03-29', endDate: '2030-03-31' },
+      { ...stops[1], firstDay: 4, lastDay: 4, startDate: '2030-04-01', endDate: '2030-04-01' },
+      { ...stops[2], firstDay: 5, lastDay: 6, startDate: '2030-04-02', endDate: '2030-04-03' },
+    ]);
+    expect(totalDays(stops)).toBe(6);
+  });
+
+  it('describes each stop on one line', () => {
+    expect(scheduleStops(stops, '2030-03-29').map(describeStop)).toEqual([
+      'Mumbai, India: days 1–3, 2030-03-29 to 2030-03-31',
+      'Goa, India: day 4, 2030-04-01',
+      'Kerala, India: days 5–6, 2030-04-02 to 2030-04-03',
+    ]);
+  });
+});
+
+describe('stopForDay', () => {
+  it('finds the stop a day is spent at', () => {
+    expect([1, 3, 4, 5, 6].map((day) => stopForDay(stops, day).destination)).toEqual([
+      'Mumbai, India',
+      'Mumbai, India',
+      'Goa, India',
+      'Kerala, India',
+      'Kerala, India',
+    ]);
+  });
+
+  it('counts days past the end as the last stop', () => {
+    expect(stopForDay(stops, 9)).toBe(stops[2]);
+  });
+});
+
+describe('fitStopsToDays', () => {
+  it('gives extra days to the last stop', () => {
+    expect(fitStopsToDays(stops, 8).map((stop) => stop.days)).toEqual([3, 1, 4]);
+  });
+
+  it('takes days from the last stops first, keeping at least one day each', () => {
+    expect(fitStopsToDays(stops, 5).map((stop) => stop.days)).toEqual([3, 1, 1]);
+    expect(fitStopsToDays(stops, 4).map((stop) => stop.days)).toEqual([2, 1, 1]);
+    expect(fitStopsToDays(stops, 2).map((stop) => stop.days)).toEqual([1, 1, 1]);
+  });
+});
+
+describe('isSameStop', () => {
+  it('matches known destinations by profile, including aliases', () => {
+    expect(isSameStop('Bombay', 'Mumbai, India')).toBe(true);
+    expect(isSameStop('Goa', 'Mumbai, India')).toBe(false);
+  });
+
+  it('compares unknown destinations by their first part', () => {
+    expect(isSameStop('Porto', 'Porto, Portugal')).toBe(true);
+    expect(isSameStop('Porto', 'Braga, Portugal')).toBe(false);
+  });
+});
+
+it('titles a trip by its stops', () => {
+  expect(tripTitle(stops)).toBe('Mumbai, India → Goa, India → Kerala, India');
+});
@@ -0,0 +1,95 @@
+import { addDays } from '@/lib/dates';
+import { findDestination } from '@/lib/pricing/destinations';
+
+/** One destination of a trip and how many days are spent there. */
+export type TripStop = {
+  destination: string;
+  days: number;
+};
+
+/** A stop placed on the trip calendar. */
+export type ScheduledStop = TripStop & {
+  /** The first and last trip day spent at the stop, numbered from 1. */
+  firstDay: number;
+  lastDay: number;
+  startDate: string;
+  endDate: string;
+};
+
+export const MAX_STOPS = 6;
+
+/** The longest trip the planner will generate, across all stops. */
+export const MAX_TRIP_DAYS = 21;
+
+export function totalDays(stops: TripStop[]): number {
+  return stops.reduce((sum, stop) => sum + stop.days, 0);
+}
+
+/**
+ * Lays the stops end to end from `startDate`: each stop begins the day after
+ * the previous one ends, and that first day is also the day of travel.
+ */
+export function scheduleStops(stops: TripStop[], startDate: string): ScheduledStop[] {
+  let firstDay = 1;
+  return stops.map((stop) => {
+    const scheduled = {
+      ...stop,
+      firstDay,
+      lastDay: firstDay + stop.days - 1,
+      startDate: addDays(startDate, firstDay - 1),
+      endDate: addDays(startDate, firstDay + stop.days - 2),
+    };
+    firstDay += stop.days;
+    return scheduled;
+  });
+}
+
+/** The stop a trip day (numbered from 1) is spent at; later days belong to the last stop. */
+export function stopForDay(stops: TripStop[], day: number): TripStop {
+  let lastDay = 0;
+  for (const stop of stops) {
+    lastDay += stop.days;
+    if (day <= lastDay) return stop;
+  }
+  return stops[stops.length - 1];
+}
+
+/** A one-line description of a scheduled stop, as the prompts list them. */
+export function describeStop(stop: ScheduledStop): string {
+  const days = stop.days === 1 ? `day ${stop.firstDay}` : `days ${stop.firstDay}–${stop.lastDay}`;
+  const dates = stop.days === 1 ? stop.startDate : `${stop.startDate} to ${stop.endDate}`;
+  return `${stop.destination}: ${days}, ${dates}`;
+}
+
+/**
+ * Resizes the stops to fill a trip of `days` days. The last stop takes up any
+ * change, and when it is down to a single day the stops before it shrink in
+ * turn. Stops are never cut below one day, so the result can still be longer
+ * than `days` when there are more stops than days.
+ */
+export function fitStopsToDays<T extends TripStop>(stops: T[], days: number): T[] {
+  let extra = days - totalDays(stops);
+  const fitted = [...stops];
+  for (let i = fitted.length - 1; i >= 0 && extra !== 0; i--) {
+    const resized = Math.max(1, fitted[i].days + extra);
+    extra -= resized - fitted[i].days;
+    fitted[i] = { ...fitted[i], days: resized };
+  }
+  return fitted;
+}
+
+export function tripTitle(stops: TripStop[]): string {
+  return stops.map((stop) => stop.destination).join(' → ');
+}
+
+/**
+ * Whether a free-text place name such as "Goa" refers to the stop "Goa,
+ * India". Known destinations are compared by profile, so aliases match too.
+ */
+export function isSameStop(name: string, destination: string): boolean {
+  const a = findDestination(name);
+  const b = findDestination(destination);
+  if (a.known && b.known) return a.name === b.name;
+  const city = (text: string) => text.split(',')[0].trim().toLowerCase();
+  return city(name) === city(destination);
+}
@@ -0,0 +1,106 @@
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+
+import { firebaseAdminApp } from '@/lib/firebase-admin';
+import type {
+  ShareRecord,
+  TripRecord,
+  TripRepository,
+  TripVersionRecord,
+} from '@/lib/trips/repository';
+import { newShareId } from '@/lib/trips/share-id';
+
+let database: Firestore | undefined;
+
+function connect(): Firestore {
+  if (database) return database;
+  database = getFirestore(firebaseAdminApp());
+  // Optional request fields arrive as undefined, which Firestore rejects by default.
+  database.settings({ ignoreUndefinedProperties: true });
+  return database;
+}
+
+/**
+ * Stores trips in Firestore through the Admin SDK: each trip is a document in
+ * `trips` with its versions in a `versions` subcollection, and shares are
+ * documents in `shares`. Every document holds its record as is, ID included.
+ */
+export function firestoreTripRepository(db: Firestore = connect()): TripRepository {
+  const trips = db.collection('trips');
+  const versionsOf = (tripId: string) => trips.doc(tripId).collection('versions');
+
+  async function getTrip(id: string): Promise<TripRecord | null> {
+    const snapshot = await trips.doc(id).get();
+    return snapshot.exists ? (snapshot.data() as TripRecord) : null;
+  }
+
+  async function getVersion(tripId: string, versionId: string): Promise<TripVersionRecord | null> {
+    const snapshot = await versionsOf(tripId).doc(versionId).get();
+    return snapshot.exists ? (snapshot.data() as TripVersionRecord) : null;
+  }
+
+  return {
+    async createTrip({ ownerId, name, input, itinerary }) {
+      const tripRef = trips.doc();
+      const versionRef = versionsOf(tripRef.id).doc();
+      const createdAt = new Date().toISOString();
+      const version: TripVersionRecord = { id: versionRef.id, tripId: tripRef.id, number: 1, itinerary, createdAt };
+      const trip: TripRecord = {
+        id: tripRef.id,
+        ownerId,
+        name,
+        input,
+        currentVersionId: version.id,
+        versionCount: 1,
+        createdAt,
+        updatedAt: createdAt,
+      };
+      await db.batch().set(tripRef, trip).set(versionRef, version).commit();
+      return { trip, version };
+    },
+
+    getTrip,
+
+    async listTrips(ownerId) {
+      // Sorted here rather than in the query, which would need a composite index.
+      const snapshot = await trips.where('ownerId', '==', ownerId).get();
+      return snapshot.docs
+        .map((d) => d.data() as TripRecord)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    addVersion(tripId, itinerary) {
+      // A transaction, so that two edits saved at once still get distinct numbers.
+      return db.runTransaction(async (transaction) => {
+        const tripRef = trips.doc(tripId);
+        const snapshot = await transaction.get(tripRef);
+        if (!snapshot.exists) throw new Error(`Trip ${tripId} was not found.`);
+        const trip = snapshot.data() as TripRecord;
+        const versionRef = versionsOf(tripId).doc();
+        const createdAt = new Date().toISOString();
+        const number = trip.versionCount + 1;
+        const version: TripVersionRecord = { id: versionRef.id, tripId, number, itinerary, createdAt };
+        transaction.set(versionRef, version);
+        transaction.update(tripRef, { currentVersionId: version.id, versionCount: number, updatedAt: createdAt });
+        return version;
+      });
+    },
+
+    getVersion,
+
+    async listVersions(tripId) {
+      const snapshot = await versionsOf(tripId).orderBy('number').get();
+      return snapshot.docs.map((d) => d.data() as TripVersionRecord);
+    },
+
+    async createShare({ name, input, itinerary }) {
+      const share: ShareRecord = { id: newShareId(), name, input, itinerary, createdAt: new Date().toISOString() };
+      await db.collection('shares').doc(share.id).set(share);
+      return share;
+    },
+
+    async getShare(id) {
+      const snapshot = await db.collection('shares').doc(id).get();
+      return snapshot.exists ? (snapshot.data() as ShareRecord) : null;
+    },
+  };
+}
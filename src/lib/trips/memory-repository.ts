@@ -0,0 +1,86 @@
+import type {
+  ShareRecord,
+  TripRecord,
+  TripRepository,
+  TripVersionRecord,
+} from '@/lib/trips/repository';
+import { newShareId } from '@/lib/trips/share-id';
+
+/**
+ * A trip repository that keeps everything in memory, for tests and for running
+ * without Firebase. Records are copied in and out, as a database would.
+ */
+export function memoryTripRepository(): TripRepository {
+  const trips = new Map<string, TripRecord>();
+  const versions = new Map<string, TripVersionRecord[]>();
+  const shares = new Map<string, ShareRecord>();
+  const copy = <T>(value: T): T => structuredClone(value);
+
+  function tripOrThrow(id: string): TripRecord {
+    const trip = trips.get(id);
+    if (!trip) throw new Error(`Trip ${id} was not found.`);
+    return trip;
+  }
+
+  return {
+    async createTrip({ ownerId, name, input, itinerary }) {
+      const createdAt = new Date().toISOString();
+      const id = crypto.randomUUID();
+      const version: TripVersionRecord = { id: crypto.randomUUID(), tripId: id, number: 1, itinerary, createdAt };
+      const trip: TripRecord = {
+        id,
+        ownerId,
+        name,
+        input,
+        currentVersionId: version.id,
+        versionCount: 1,
+        createdAt,
+        updatedAt: createdAt,
+      };
+      trips.set(id, copy(trip));
+      versions.set(id, [copy(version)]);
+      return { trip: copy(trip), version: copy(version) };
+    },
+
+    async getTrip(id) {
+      const trip = trips.get(id);
+      return trip ? copy(trip) : null;
+    },
+
+    async listTrips(ownerId) {
+      return copy([...trips.values()].filter((t) => t.ownerId === ownerId)).sort((a, b) =>
+        b.updatedAt.localeCompare(a.updatedAt)
+      );
+    },
+
+    async addVersion(tripId, itinerary) {
+      const trip = tripOrThrow(tripId);
+      const createdAt = new Date().toISOString();
+      const number = trip.versionCount + 1;
+      const version: TripVersionRecord = { id: crypto.randomUUID(), tripId, number, itinerary, createdAt };
+      versions.get(tripId)!.push(copy(version));
+      trips.set(tripId, { ...trip, currentVersionId: version.id, versionCount: number, updatedAt: createdAt });
+      return copy(version);
+    },
+
+    async getVersion(tripId, versionId) {
+      const version = versions.get(tripId)?.find((v) => v.id === versionId);
+      return version ? copy(version) : null;
+    },
+
+    async listVersions(tripId) {
+      return copy(versions.get(tripId) ?? []);
+    },
+
+    async createShare({ name, input, itinerary }) {
+      const share: ShareRecord = { id: newShareId(), name, input, itinerary, createdAt: new Date().toISOString() };
+      shares.set(share.id, copy(share));
+      return copy(share);
+    },
+
+    async getShare(id) {
+      const share = shares.get(id);
+      return share ? copy(share) : null;
+    },
+  };
+}
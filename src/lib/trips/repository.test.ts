@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import { itineraryOutputFixture } from '@/ai/plugins/mock-fixtures';
+import type { GeneratePersonalizedItineraryInput, GeneratePersonalizedItineraryOutput } from '@/ai/schemas';
+import { firestoreTripRepository } from '@/lib/trips/firestore-repository';
+import { memoryTripRepository } from '@/lib/trips/memory-repository';
+import type { NewTrip, TripRepository } from '@/lib/trips/repository';
+
+const input: GeneratePersonalizedItineraryInput = {
+  stops: [{ destination: 'Goa, India', days: 2 }],
+  startDate: '2030-12-20',
+  days: 2,
+  budget: 'Medium',
+  travelers: 2,
+  currency: 'INR',
+  interests: 'Beaches, Food',
+  pace: 'Balanced',
+};
+
+function output(summary: string): GeneratePersonalizedItineraryOutput {
+  return { ...itineraryOutputFixture(input), summary };
+}
+
+function newTrip(ownerId: string, summary: string): NewTrip {
+  return { ownerId, name: 'Goa, India', input, itinerary: output(summary) };
+}
+
+// The Firestore repository runs against the emulator when one is up
+// (`firebase emulators:exec --only firestore "npm test"`); it is skipped otherwise.
+describe.each([
+  { store: 'memory', repository: () => memoryTripRepository(), skip: false },
+  { store: 'firestore', repository: () => firestoreTripRepository(), skip: !process.env.FIRESTORE_EMULATOR_HOST },
+])('$store trip repository', ({ repository, skip }) => {
+  it.skipIf(skip)('saves a trip with its first version', async () => {
+    const trips: TripRepository = repository();
+    const { trip, version } = await trips.createTrip(newTrip('alice', 'First'));
+
+    expect(trip).toMatchObject({ ownerId: 'alice', name: 'Goa, India', input, currentVersionId: version.id, versionCount: 1 });
+    expect(version).toMatchObject({ tripId: trip.id, number: 1, itinerary: output('First') });
+    expect(await trips.getTrip(trip.id)).toEqual(trip);
+    expect(await trips.getVersion(trip.id, version.id)).toEqual(version);
+  });
+
+  it.skipIf(skip)('numbers new versions and makes the newest current', async () => {
+    const trips = repository();
+    const { trip } = await trips.createTrip(newTrip('alice', 'First'));
+    const second = await trips.addVersion(trip.id, output('Second'));
+    const third = await trips.addVersion(trip.id, output('Third'));
+
+    expect((await trips.listVersions(trip.id)).map((v) => [v.number, v.itinerary.summary])).toEqual([
+      [1, 'First'],
+      [2, 'Second'],
+      [3, 'Third'],
+    ]);
+    expect(second.number).toBe(2);
+    expect(await trips.getTrip(trip.id)).toMatchObject({ currentVersionId: third.id, versionCount: 3 });
+  });
+
+  it.skipIf(skip)('publishes a snapshot of an itinerary under a short ID', async () => {
+    const trips = repository();
+    const share = await trips.createShare({ name: 'Winter in Goa', input, itinerary: output('First') });
+
+    expect(share.id).toMatch(/^[0-9A-Za-z_-]{10}$/);
+    expect(share).toMatchObject({ name: 'Winter in Goa', input, itinerary: output('First') });
+    expect(await trips.getShare(share.id)).toEqual(share);
+    expect((await trips.createShare({ name: 'Winter in Goa', input, itinerary: output('First') })).id).not.toBe(
+      share.id
+    );
+  });
+
+  it.skipIf(skip)("lists a user's trips, most recently changed first", async () => {
+    const trips = repository();
+    // A fresh owner per run, since the emulator keeps trips between runs.
+    const ownerId = `owner-${crypto.randomUUID()}`;
+    const { trip: first } = await trips.createTrip({ ...newTrip(ownerId, 'First'), name: 'First' });
+    await trips.createTrip({ ...newTrip(ownerId, 'Second'), name: 'Second' });
+    await trips.createTrip({ ...newTrip('someone-else', 'Theirs'), name: 'Theirs' });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await trips.addVersion(first.id, output('Edited'));
+
+    expect((await trips.listTrips(ownerId)).map((t) => t.name)).toEqual(['First', 'Second']);
+  });
+
+  it.skipIf(skip)('reports missing records', async () => {
+    const trips = repository();
+    expect(await trips.getTrip('missing')).toBeNull();
+    expect(await trips.getShare('missing')).toBeNull();
+    await expect(trips.addVersion('missing', output('First'))).rejects.toThrow('Trip missing was not found.');
+  });
+});
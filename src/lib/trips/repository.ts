@@ -0,0 +1,90 @@
+import type { GeneratePersonalizedItineraryInput, GeneratePersonalizedItineraryOutput } from '@/ai/schemas';
+import { firestoreTripRepository } from '@/lib/trips/firestore-repository';
+import { memoryTripRepository } from '@/lib/trips/memory-repository';
+
+/** A trip as stored: the request it was planned from and the version on show. */
+export type TripRecord = {
+  id: string;
+  /** The UID of the user the trip belongs to. */
+  ownerId: string;
+  name: string;
+  input: GeneratePersonalizedItineraryInput;
+  /** The version the trip currently shows; usually the latest. */
+  currentVersionId: string;
+  versionCount: number;
+  /** ISO timestamps. */
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** One generated or edited itinerary of a trip. Versions are never changed once saved. */
+export type TripVersionRecord = {
+  id: string;
+  tripId: string;
+  /** Numbered from 1 in the order the versions were saved. */
+  number: number;
+  itinerary: GeneratePersonalizedItineraryOutput;
+  createdAt: string;
+};
+
+/**
+ * A snapshot of an itinerary exactly as someone saw it, published under a
+ * short ID for anyone with the link. It does not change when the trip does.
+ */
+export type ShareRecord = NewShare & {
+  id: string;
+  createdAt: string;
+};
+
+export type NewShare = {
+  name: string;
+  input: GeneratePersonalizedItineraryInput;
+  itinerary: GeneratePersonalizedItineraryOutput;
+};
+
+export type NewTrip = {
+  ownerId: string;
+  name: string;
+  input: GeneratePersonalizedItineraryInput;
+  itinerary: GeneratePersonalizedItineraryOutput;
+};
+
+export interface TripRepository {
+  /** Saves a new trip with `itinerary` as its first version. */
+  createTrip(trip: NewTrip): Promise<{ trip: TripRecord; version: TripVersionRecord }>;
+  getTrip(id: string): Promise<TripRecord | null>;
+  /** The trips of one user, most recently changed first. */
+  listTrips(ownerId: string): Promise<TripRecord[]>;
+  /** Saves `itinerary` as the newest version of a trip and makes it current. */
+  addVersion(tripId: string, itinerary: GeneratePersonalizedItineraryOutput): Promise<TripVersionRecord>;
+  getVersion(tripId: string, versionId: string): Promise<TripVersionRecord | null>;
+  /** Every version of a trip, oldest first. */
+  listVersions(tripId: string): Promise<TripVersionRecord[]>;
+  /** Publishes a snapshot of an itinerary under a new short ID. */
+  createShare(share: NewShare): Promise<ShareRecord>;
+  getShare(id: string): Promise<ShareRecord | null>;
+}
+
+let repository: TripRepository | undefined;
+
+/**
+ * The trip repository picked by TRIP_STORE: "firestore" by default, which
+ * talks to the emulator when FIRESTORE_EMULATOR_HOST is set and to the
+ * configured project otherwise, or "memory" for a store that lasts as long as
+ * the process.
+ */
+export function tripRepository(): TripRepository {
+  if (repository) return repository;
+  const store = process.env.TRIP_STORE || 'firestore';
+  switch (store) {
+    case 'firestore':
+      repository = firestoreTripRepository();
+      break;
+    case 'memory':
+      repository = memoryTripRepository();
+      break;
+    default:
+      throw new Error(`Unknown TRIP_STORE "${store}". Use "firestore" or "memory".`);
+  }
+  return repository;
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+
+import { isShareId, newShareId } from '@/lib/trips/share-id';
+
+describe('share IDs', () => {
+  it('are short, URL-safe and distinct', () => {
+    const ids = Array.from({ length: 100 }, newShareId);
+    expect(ids.every(isShareId)).toBe(true);
+    expect(new Set(ids).size).toBe(100);
+  });
+
+  it('rejects anything that is not a share ID', () => {
+    expect(isShareId('abcDEF12_-')).toBe(true);
+    expect(isShareId('abc')).toBe(false);
+    expect(isShareId('../trips/x')).toBe(false);
+    expect(isShareId('abcDEF12_-x')).toBe(false);
+  });
+});
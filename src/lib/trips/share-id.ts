@@ -0,0 +1,16 @@
+const SHARE_ID_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+
+/** Long enough (60 random bits) that two shares never realistically collide. */
+export const SHARE_ID_LENGTH = 10;
+
+/** A random ID for a share, short enough to read out or type from a link. */
+export function newShareId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SHARE_ID_LENGTH));
+  // 64 symbols, so masking each byte picks every one equally often.
+  return Array.from(bytes, (byte) => SHARE_ID_ALPHABET[byte & 63]).join('');
+}
+
+/** Whether `id` could be a share ID, checked before it is used in a database path. */
+export function isShareId(id: string): boolean {
+  return new RegExp(`^[0-9A-Za-z_-]{${SHARE_ID_LENGTH}}$`).test(id);
+}
@@ -0,0 +1,22 @@
+import react from '@vitejs/plugin-react';
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./vitest.setup.ts'],
+    // Flows run against the offline mock model and trips are kept in memory;
+    // no test may reach the network.
+    env: {
+      AI_PROVIDER: 'mock',
+      TRIP_STORE: 'memory',
+    },
+  },
+});